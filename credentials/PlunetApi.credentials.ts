@@ -41,6 +41,49 @@ export class PlunetApi implements ICredentialType {
             typeOptions: { minValue: 0 },
             default: 30000
         },
+        {
+            displayName: 'SOAP Version',
+            name: 'soapVersion',
+            type: 'options',
+            options: [
+                { name: 'Auto (Negotiate per Endpoint)', value: 'auto' },
+                { name: 'SOAP 1.1', value: '1.1' },
+                { name: 'SOAP 1.2', value: '1.2' },
+            ],
+            default: 'auto',
+            description: 'Auto tries 1.1, falls back to 1.2 and remembers the working version per host and endpoint. Force a version to always send exactly one request.'
+        },
+        {
+            displayName: 'Max Session Age (min)',
+            name: 'maxSessionAge',
+            type: 'number',
+            typeOptions: { minValue: 0 },
+            default: 0,
+            description: 'Log in again once the cached session is older than this. 0 keeps the session until Plunet rejects it; expired sessions are always renewed and the request replayed once.'
+        },
+        {
+            displayName: 'Retry Attempts',
+            name: 'retryMaxAttempts',
+            type: 'number',
+            typeOptions: { minValue: 0, maxValue: 10 },
+            default: 2,
+            description: 'How often to retry a request after a timeout, connection reset or HTTP 502/503/504. 0 disables retries.'
+        },
+        {
+            displayName: 'Retry Base Delay (ms)',
+            name: 'retryBaseDelay',
+            type: 'number',
+            typeOptions: { minValue: 0 },
+            default: 500,
+            description: 'Delay before the first retry; doubled for every further attempt, with random jitter'
+        },
+        {
+            displayName: 'Retry Write Operations',
+            name: 'retryWriteOperations',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to retry operations that change data (insert, update, set, delete, ...) too. Only get/search operations are retried by default, since a retried write may be applied twice.'
+        },
         {
             displayName: 'Enable Debug Mode',
             name: 'enableDebugMode',
@@ -1,2 +1,4 @@
 export * from './nodes/Plunet/Plunet.node';
+export * from './nodes/Plunet/PlunetTrigger.node';
+export * from './nodes/Plunet/PlunetCallbackTrigger.node';
 export * from './credentials/PlunetApi.credentials';
@@ -13,6 +13,7 @@ import { Creds, Service } from './core/types';
 import { executeOperation, type ExecuteConfig } from './core/executor';
 import { NUMERIC_BOOLEAN_PARAMS } from './core/constants';
 import { extractStatusMessage } from './core/xml';
+import { mapWithConcurrency, splitPayload } from './core/utils';
 
 // Simple base64 decoder for Node.js environment
 function base64ToUint8Array(base64: string): Uint8Array {
@@ -115,8 +116,15 @@ import { DataJob30MiscService } from './services/dataJob30.misc';
 import { DataJob30PricesService } from './services/dataJob30.prices';
 import { DataResource30CoreService } from './services/dataResource30.core';
 import { DataResource30MiscService } from './services/dataResource30.misc';
+import { DataResource30PricesService } from './services/dataResource30.prices';
 import { DataOrder30CoreService } from './services/dataOrder30.core';
 import { DataOrder30MiscService } from './services/dataOrder30.misc';
+import { DataQuote30CoreService } from './services/dataQuote30.core';
+import { DataQuote30MiscService } from './services/dataQuote30.misc';
+import { DataRequest30Service } from './services/dataRequest30';
+import { DataOutgoingInvoice30Service } from './services/dataOutgoingInvoice30';
+import { DataPayable30Service } from './services/dataPayable30';
+import { DataCreditNote30Service } from './services/dataCreditNote30';
 import { DataDocument30Service } from './services/dataDocument30';
 import { DataCustomFields30Service } from './services/dataCustomFields30';
 import { DataAdmin30Service } from './services/dataAdmin30';
@@ -124,10 +132,12 @@ import { DataItem30CoreService } from './services/dataItem30.core';
 import { DataItem30MiscService } from './services/dataItem30.misc';
 import { DataItem30PricesService } from './services/dataItem30.prices';
 import { DataCustomerAddress30CoreService } from './services/dataCustomerAddress30.core';
+import { DataResourceAddress30CoreService } from './services/dataResourceAddress30.core';
 import { DebugService } from './services/debug';
 import { getAvailablePropertyNames, getAvailableTextModuleFlags, getAvailableWorkflows, getAvailableLanguages, getAvailableCountries } from './services/loadOptions';
 // import { DataJob30Service } from './services/dataJob30';
 import { DataCustomerContact30CoreService } from './services/dataCustomerContact30.core';
+import { DataCustomerContact30MiscService } from './services/dataCustomerContact30.misc';
 
 
 const registry: Record<string, Service> = {
@@ -136,6 +146,11 @@ const registry: Record<string, Service> = {
     [DataResource30CoreService.resource]: DataResource30CoreService,
     [DataJob30CoreService.resource]: DataJob30CoreService,    
     [DataOrder30CoreService.resource]: DataOrder30CoreService,
+    [DataQuote30CoreService.resource]: DataQuote30CoreService,
+    [DataRequest30Service.resource]: DataRequest30Service,
+    [DataOutgoingInvoice30Service.resource]: DataOutgoingInvoice30Service,
+    [DataCreditNote30Service.resource]: DataCreditNote30Service,
+    [DataPayable30Service.resource]: DataPayable30Service,
     [DataDocument30Service.resource]: DataDocument30Service,
     [DataCustomFields30Service.resource]: DataCustomFields30Service,
     [DataAdmin30Service.resource]: DataAdmin30Service,
@@ -143,11 +158,15 @@ const registry: Record<string, Service> = {
     [DataItem30MiscService.resource]: DataItem30MiscService,
     [DataItem30PricesService.resource]: DataItem30PricesService,
     [DataCustomerAddress30CoreService.resource]: DataCustomerAddress30CoreService,
+    [DataResourceAddress30CoreService.resource]: DataResourceAddress30CoreService,
     [DataCustomerContact30CoreService.resource]: DataCustomerContact30CoreService,
+    [DataCustomerContact30MiscService.resource]: DataCustomerContact30MiscService,
     [DebugService.resource]: DebugService,
     [DataCustomer30MiscService.resource]: DataCustomer30MiscService,
     [DataResource30MiscService.resource]: DataResource30MiscService,
+    [DataResource30PricesService.resource]: DataResource30PricesService,
     [DataOrder30MiscService.resource]: DataOrder30MiscService,
+    [DataQuote30MiscService.resource]: DataQuote30MiscService,
     [DataJob30PricesService.resource]: DataJob30PricesService,
     [DataJob30MiscService.resource]: DataJob30MiscService,
     //[DataJob30Service.resource]: DataJob30Service,
@@ -168,9 +187,12 @@ export class Plunet implements INodeType {
 
     async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
         const items = this.getInputData();
-        const out: INodeExecutionData[] = [];
+        const nodeOptions = this.getNodeParameter('options', 0, {}) as IDataObject;
+        const concurrency = Math.max(1, Math.floor(Number(nodeOptions.concurrency ?? 1)) || 1);
 
-        for (let i = 0; i < items.length; i++) {
+        // Items run through a bounded worker pool; results are collected per input index to keep output order
+        const processItem = async (i: number): Promise<INodeExecutionData[]> => {
+            const out: INodeExecutionData[] = [];
             try {
                 const resource = this.getNodeParameter('resource', i) as string;
                 const operation = this.getNodeParameter('operation', i) as string;
@@ -182,42 +204,56 @@ export class Plunet implements INodeType {
                 const scheme = creds.useHttps ? 'https' : 'http';
                 const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
                 const url = `${baseUrl}/${svc.endpoint}`;
-                const timeoutMs = creds.timeout ?? 30000;
+                const options = this.getNodeParameter('options', i, {}) as IDataObject;
+                const splitResults = options.splitResults === true;
+                const timeoutOverride = Number(options.timeout ?? 0);
+                const timeoutMs = timeoutOverride > 0 ? timeoutOverride : creds.timeout ?? 30000;
 
                 // Check if this operation needs special handling (non-SOAP operations)
                 if (svc.needsSpecialHandling && svc.needsSpecialHandling(operation) && svc.handleSpecialOperation) {
                     const result = await svc.handleSpecialOperation(operation, this, i);
                     if (result.binary) {
-                        out.push({ json: result.json, binary: result.binary });
+                        out.push({ json: result.json, binary: result.binary, pairedItem: { item: i } });
                     } else {
-                        out.push({ json: result.json });
+                        out.push({ json: result.json, pairedItem: { item: i } });
                     }
-                    continue;
+                    return out;
                 }
 
-                const payload = await svc.execute(operation, this, creds, url, baseUrl, timeoutMs, i);
+                const result = await svc.execute(operation, this, creds, url, baseUrl, timeoutMs, i);
 
-                // Check if the result needs special post-processing (e.g., binary data handling)
-                if (svc.needsPostProcessing && svc.needsPostProcessing(operation, payload) && svc.postProcessResult) {
-                    const processedResult = await svc.postProcessResult(operation, payload, this, i);
-                    if (processedResult.binary) {
-                        out.push({ json: processedResult.json, binary: processedResult.binary });
+                // An array result (e.g. search with full objects) becomes one item per record
+                const payloads = Array.isArray(result) ? result : [result];
+                for (const payload of payloads) {
+                    // Check if the result needs special post-processing (e.g., binary data handling)
+                    if (svc.needsPostProcessing && svc.needsPostProcessing(operation, payload) && svc.postProcessResult) {
+                        const processedResult = await svc.postProcessResult(operation, payload, this, i);
+                        if (processedResult.binary) {
+                            out.push({ json: processedResult.json, binary: processedResult.binary, pairedItem: { item: i } });
+                        } else {
+                            out.push({ json: processedResult.json, pairedItem: { item: i } });
+                        }
+                    } else if (splitResults) {
+                        // One item per list element, all linked back to the input item
+                        for (const json of splitPayload(payload)) {
+                            out.push({ json, pairedItem: { item: i } });
+                        }
                     } else {
-                        out.push({ json: processedResult.json });
+                        // Services already include success/resource/operation; forward as-is.
+                        out.push({ json: payload, pairedItem: { item: i } });
                     }
-                } else {
-                    // Services already include success/resource/operation; forward as-is.
-                    out.push({ json: payload as IDataObject });
                 }
             } catch (err) {
                 if (this.continueOnFail()) {
-                    out.push({ json: { success: false, error: (err as Error).message } });
+                    out.push({ json: { success: false, error: (err as Error).message }, pairedItem: { item: i } });
                 } else {
                     throw err;
                 }
             }
-        }
+            return out;
+        };
 
-        return [out];
+        const results = await mapWithConcurrency(items.map((_, i) => i), concurrency, processItem);
+        return [results.flat()];
     }
 }
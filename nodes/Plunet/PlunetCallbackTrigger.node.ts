@@ -0,0 +1,257 @@
+import {
+    IHookFunctions,
+    IWebhookFunctions,
+    IWebhookResponseData,
+    INodeType,
+    INodeTypeDescription,
+    IDataObject,
+} from 'n8n-workflow';
+import { randomBytes } from 'crypto';
+
+import type { Creds } from './core/types';
+import { escapeXml } from './core/soap';
+import { callSoapOperation } from './core/executor';
+import { parseCallbackEvent } from './core/parsers/callback';
+import { EventTypeIdByName, type EventTypeName } from './enums/event-type';
+
+const RESOURCE = 'PlunetCallbackTrigger';
+
+/** Entities Plunet can notify about, with the Data*30 endpoint that registers the callback. */
+const CALLBACK_ENTITIES = {
+    job: { label: 'Job', endpoint: 'DataJob30', idField: 'jobid' },
+    order: { label: 'Order', endpoint: 'DataOrder30', idField: 'orderid' },
+    request: { label: 'Request', endpoint: 'DataRequest30', idField: 'requestid' },
+    quote: { label: 'Quote', endpoint: 'DataQuote30', idField: 'quoteid' },
+    customer: { label: 'Customer', endpoint: 'DataCustomer30', idField: 'customerid' },
+    resource: { label: 'Resource', endpoint: 'DataResource30', idField: 'resourceid' },
+} as const;
+type CallbackEntity = keyof typeof CALLBACK_ENTITIES;
+
+/** Event keys used in the UI and in emitted items, e.g. "job.statusChanged". */
+const EVENT_SUFFIX: Record<EventTypeName, string> = {
+    STATUS_CHANGED: 'statusChanged',
+    NEW_ENTRY: 'created',
+    DELETE_ENTRY: 'deleted',
+};
+
+const EVENT_LABEL: Record<EventTypeName, string> = {
+    STATUS_CHANGED: 'Status Changed',
+    NEW_ENTRY: 'Created',
+    DELETE_ENTRY: 'Deleted',
+};
+
+/** Static data kept between activation and deactivation. */
+type CallbackState = {
+    authenticationCode?: string;
+    registrations?: string[];   // event keys registered with Plunet
+};
+
+function eventKey(entity: CallbackEntity, type: EventTypeName): string {
+    return `${entity}.${EVENT_SUFFIX[type]}`;
+}
+
+function splitEventKey(key: string): { entity: CallbackEntity; type: EventTypeName } | null {
+    const [entity, suffix] = key.split('.');
+    if (!entity || !(entity in CALLBACK_ENTITIES)) return null;
+    const type = (Object.keys(EVENT_SUFFIX) as EventTypeName[]).find((t) => EVENT_SUFFIX[t] === suffix);
+    return type ? { entity: entity as CallbackEntity, type } : null;
+}
+
+const eventOptions = (Object.keys(CALLBACK_ENTITIES) as CallbackEntity[]).flatMap((entity) =>
+    (Object.keys(EVENT_SUFFIX) as EventTypeName[]).map((type) => ({
+        name: `${CALLBACK_ENTITIES[entity].label} ${EVENT_LABEL[type]}`,
+        value: eventKey(entity, type),
+    })),
+);
+
+async function getBaseUrl(ctx: IHookFunctions): Promise<{ creds: Creds; baseUrl: string }> {
+    const creds = (await ctx.getCredentials('plunetApi')) as unknown as Creds;
+    const scheme = creds.useHttps ? 'https' : 'http';
+    const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
+    return { creds, baseUrl };
+}
+
+/** Random hex token Plunet echoes back as Authenticationcode on every callback. */
+function createAuthenticationCode(): string {
+    return randomBytes(16).toString('hex');
+}
+
+/** Deregister callbacks by event key; ones already gone on the Plunet side are skipped. */
+async function deregisterCallbacks(ctx: IHookFunctions, creds: Creds, baseUrl: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+        const parsed = splitEventKey(key);
+        if (!parsed) continue;
+        const { endpoint } = CALLBACK_ENTITIES[parsed.entity];
+        try {
+            await callSoapOperation(
+                ctx,
+                creds,
+                `${baseUrl}/${endpoint}`,
+                'deregisterCallback_Notify',
+                (sessionId) =>
+                    `<UUID>${escapeXml(sessionId)}</UUID>` +
+                    `<EventType>${EventTypeIdByName[parsed.type]}</EventType>`,
+                RESOURCE,
+            );
+        } catch {
+            // Already gone on the Plunet side; nothing left to clean up
+        }
+    }
+}
+
+/** Minimal SOAP 1.1 acknowledgement for the callback operation. */
+function buildAckEnvelope(operation: string): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:api="http://API.Integration/">
+  <soapenv:Header/>
+  <soapenv:Body>
+    <api:${operation}Response/>
+  </soapenv:Body>
+</soapenv:Envelope>`;
+}
+
+export class PlunetCallbackTrigger implements INodeType {
+    description: INodeTypeDescription = {
+        displayName: 'Plunet Callback Trigger',
+        name: 'plunetCallbackTrigger',
+        icon: 'file:plunet.png',
+        group: ['trigger'],
+        version: 1,
+        description: 'Starts the workflow when Plunet sends a callback notification',
+        subtitle: '={{ $parameter["events"].join(", ") }}',
+        defaults: { name: 'Plunet Callback Trigger' },
+        inputs: [],
+        outputs: ['main'],
+        credentials: [{ name: 'plunetApi', required: true }],
+        webhooks: [
+            {
+                name: 'default',
+                httpMethod: 'POST',
+                responseMode: 'onReceived',
+                path: 'webhook',
+            },
+        ],
+        properties: [
+            {
+                displayName: 'Events',
+                name: 'events',
+                type: 'multiOptions',
+                required: true,
+                default: ['job.statusChanged'],
+                options: eventOptions,
+                description: 'Callbacks to register in Plunet while the workflow is active',
+            },
+        ],
+    };
+
+    webhookMethods = {
+        default: {
+            async checkExists(this: IHookFunctions): Promise<boolean> {
+                const state = this.getWorkflowStaticData('node') as CallbackState;
+                const wanted = this.getNodeParameter('events', []) as string[];
+                const registered = state.registrations ?? [];
+                return wanted.length > 0 && wanted.every((e) => registered.includes(e));
+            },
+
+            async create(this: IHookFunctions): Promise<boolean> {
+                const webhookUrl = this.getNodeWebhookUrl('default');
+                if (!webhookUrl) return false;
+
+                const state = this.getWorkflowStaticData('node') as CallbackState;
+                const wanted = this.getNodeParameter('events', []) as string[];
+                const { creds, baseUrl } = await getBaseUrl(this);
+
+                const authenticationCode = state.authenticationCode ?? createAuthenticationCode();
+                const registrations: string[] = [];
+
+                try {
+                    for (const key of wanted) {
+                        const parsed = splitEventKey(key);
+                        if (!parsed) continue;
+                        const { endpoint } = CALLBACK_ENTITIES[parsed.entity];
+                        await callSoapOperation(
+                            this,
+                            creds,
+                            `${baseUrl}/${endpoint}`,
+                            'registerCallback_Notify',
+                            (sessionId) =>
+                                `<UUID>${escapeXml(sessionId)}</UUID>` +
+                                `<ServerAuthenticationString>${escapeXml(authenticationCode)}</ServerAuthenticationString>` +
+                                `<ServerAddress>${escapeXml(webhookUrl)}</ServerAddress>` +
+                                `<EventType>${EventTypeIdByName[parsed.type]}</EventType>`,
+                            RESOURCE,
+                        );
+                        registrations.push(key);
+                    }
+                } catch (error) {
+                    // Activation fails, so delete() will not run for these; undo them before giving up
+                    await deregisterCallbacks(this, creds, baseUrl, registrations);
+                    throw error;
+                }
+
+                state.authenticationCode = authenticationCode;
+                state.registrations = registrations;
+                return true;
+            },
+
+            async delete(this: IHookFunctions): Promise<boolean> {
+                const state = this.getWorkflowStaticData('node') as CallbackState;
+                const registered = state.registrations ?? [];
+                if (registered.length === 0) return true;
+
+                const { creds, baseUrl } = await getBaseUrl(this);
+                await deregisterCallbacks(this, creds, baseUrl, registered);
+
+                delete state.registrations;
+                delete state.authenticationCode;
+                return true;
+            },
+        },
+    };
+
+    async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+        const req = this.getRequestObject();
+        const res = this.getResponseObject();
+        const state = this.getWorkflowStaticData('node') as CallbackState;
+        const wanted = this.getNodeParameter('events', []) as string[];
+
+        const rawBody = (req as unknown as { rawBody?: { toString(encoding: string): string } }).rawBody;
+        const xml = rawBody ? rawBody.toString('utf8') : typeof req.body === 'string' ? req.body : '';
+
+        const event = parseCallbackEvent(xml);
+        if (!event) {
+            res.status(400).send('Invalid SOAP callback');
+            return { noWebhookResponse: true };
+        }
+
+        // No stored code means no callbacks were registered by this node, so nothing is accepted
+        if (!state.authenticationCode || event.authenticationCode !== state.authenticationCode) {
+            res.status(401).send('Invalid authentication code');
+            return { noWebhookResponse: true };
+        }
+
+        res.status(200).type('text/xml').send(buildAckEnvelope(event.callbackOperation));
+
+        // Map the callback to the event key it was registered for
+        const entity = (Object.keys(CALLBACK_ENTITIES) as CallbackEntity[])
+            .find((e) => CALLBACK_ENTITIES[e].idField === event.mainIDField?.toLowerCase());
+        const type = event.eventTypeName as EventTypeName | undefined;
+        const key = entity && type ? eventKey(entity, type) : undefined;
+
+        if (key && !wanted.includes(key)) {
+            return { noWebhookResponse: true };
+        }
+
+        const { authenticationCode: _omit, ...payload } = event;
+        const json: IDataObject = {
+            event: key ?? event.callbackOperation,
+            entity,
+            ...payload,
+        };
+
+        return {
+            noWebhookResponse: true,
+            workflowData: [this.helpers.returnJsonArray([json])],
+        };
+    }
+}
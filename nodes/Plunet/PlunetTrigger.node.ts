@@ -0,0 +1,227 @@
+import {
+    IPollFunctions,
+    INodeExecutionData,
+    INodeType,
+    INodeTypeDescription,
+    IDataObject,
+} from 'n8n-workflow';
+
+import type { Creds } from './core/types';
+import { escapeXml } from './core/soap';
+import { callSoapOperation } from './core/executor';
+import { parseIntegerArrayResult, parseIntegerResult } from './core/xml';
+import { parseOrderResult } from './core/parsers/order';
+import { idToArchivStatusName } from './enums/archiv-status';
+import { SearchScope, SearchScopeOptions } from './enums/search-scope';
+import { buildTimeFrameSearchFilterXml } from './core/service-utils';
+import { mapWithConcurrency } from './core/utils';
+import { SEARCH_EXPANSION_CONCURRENCY } from './core/constants';
+import { ORDER_SEARCH_FILTER_FIELDS, ORDER_SEARCH_FILTER_OPTIONS } from './services/dataOrder30.core';
+
+const RESOURCE = 'PlunetTrigger';
+const ORDER_ENDPOINT = 'DataOrder30';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TriggerEvent = 'orderCreated' | 'statusChanged';
+
+/**
+ * Poll state kept in the node's static data.
+ * `lastPollAt` is the watermark; `knownOrders` maps orderID → last seen projectStatus.
+ */
+type TriggerState = {
+    lastPollAt?: string;
+    knownOrders?: Record<string, number | null>;
+};
+
+export class PlunetTrigger implements INodeType {
+    description: INodeTypeDescription = {
+        displayName: 'Plunet Trigger',
+        name: 'plunetTrigger',
+        icon: 'file:plunet.png',
+        group: ['trigger'],
+        version: 1,
+        description: 'Starts the workflow when Plunet orders are created or change status',
+        subtitle: '={{ $parameter["events"].join(", ") }}',
+        defaults: { name: 'Plunet Trigger' },
+        polling: true,
+        inputs: [],
+        outputs: ['main'],
+        credentials: [{ name: 'plunetApi', required: true }],
+        properties: [
+            {
+                displayName: 'Events',
+                name: 'events',
+                type: 'multiOptions',
+                required: true,
+                default: ['orderCreated', 'statusChanged'],
+                options: [
+                    {
+                        name: 'Order Created',
+                        value: 'orderCreated',
+                        description: 'A new order appears in the search window',
+                    },
+                    {
+                        name: 'Order Status Changed',
+                        value: 'statusChanged',
+                        description: 'The projectStatus of a known order changed since the last poll',
+                    },
+                ],
+            },
+            {
+                displayName: 'Language Code',
+                name: 'languageCode',
+                type: 'string',
+                default: 'EN',
+                description: 'Language code sent with the order search',
+            },
+            {
+                displayName: 'Date Relation',
+                name: 'dateRelation',
+                type: 'options',
+                options: SearchScopeOptions,
+                default: SearchScope.DATE_OF_ORDER,
+                description: 'Which order date the search window applies to',
+            },
+            {
+                displayName: 'Lookback (Days)',
+                name: 'lookbackDays',
+                type: 'number',
+                typeOptions: { minValue: 1, step: 1 },
+                default: 30,
+                description: 'Orders within this many days are watched for status changes. Each poll makes one getProjectStatus call per order in the window (plus getOrderObject for new or changed orders), so a long lookback costs more calls. The window is widened back to the last poll if the trigger was inactive for longer.',
+            },
+            {
+                displayName: 'Search Filters',
+                name: 'searchFilters',
+                type: 'collection',
+                placeholder: 'Add Filter',
+                default: {},
+                description: 'Optional filters applied to the order search',
+                options: ORDER_SEARCH_FILTER_OPTIONS,
+            },
+        ],
+    };
+
+    async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+        const events = this.getNodeParameter('events', []) as TriggerEvent[];
+        const languageCode = this.getNodeParameter('languageCode', 'EN') as string;
+        const dateRelation = this.getNodeParameter('dateRelation', SearchScope.DATE_OF_ORDER) as number;
+        const lookbackDays = this.getNodeParameter('lookbackDays', 30) as number;
+        const searchFilters = this.getNodeParameter('searchFilters', {}) as IDataObject;
+
+        const creds = (await this.getCredentials('plunetApi')) as unknown as Creds;
+        const scheme = creds.useHttps ? 'https' : 'http';
+        const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
+        const url = `${baseUrl}/${ORDER_ENDPOINT}`;
+
+        const isManual = this.getMode() === 'manual';
+        const state = this.getWorkflowStaticData('node') as TriggerState;
+        const knownOrders = state.knownOrders;
+        const now = new Date();
+
+        // Search window: lookback period, widened to the watermark after downtime
+        let from = now.getTime() - lookbackDays * DAY_MS;
+        if (state.lastPollAt) {
+            from = Math.min(from, new Date(state.lastPollAt).getTime());
+        }
+        const dateFrom = new Date(from).toISOString();
+        const dateTo = new Date(now.getTime() + DAY_MS).toISOString();
+
+        const searchFilter = buildTimeFrameSearchFilterXml(
+            languageCode, dateRelation, dateFrom, dateTo, searchFilters, ORDER_SEARCH_FILTER_FIELDS,
+        );
+        const searchXml = await callSoapOperation(
+            this,
+            creds,
+            url,
+            'search',
+            (sessionId) => `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`,
+            RESOURCE,
+        );
+        const orderIDs = parseIntegerArrayResult(searchXml).data;
+
+        const call = (op: string, orderID: number) =>
+            callSoapOperation(
+                this,
+                creds,
+                url,
+                op,
+                (sessionId) => `<UUID>${escapeXml(sessionId)}</UUID>\n<orderID>${orderID}</orderID>`,
+                RESOURCE,
+            );
+        const fetchOrder = async (orderID: number): Promise<IDataObject> => {
+            const order = (parseOrderResult(await call('getOrderObject', orderID)).order || {}) as IDataObject;
+            const projectStatus = order.projectStatus as number | undefined;
+            if (projectStatus !== undefined && projectStatus !== null) {
+                order.projectStatusLabel = idToArchivStatusName(projectStatus);
+            }
+            return order;
+        };
+
+        // Known orders only need their status (getProjectStatus); full objects are fetched for new orders
+        // and for changes that are emitted, so a poll costs one call per order in the window plus one per event
+        const statuses = await mapWithConcurrency(orderIDs, SEARCH_EXPANSION_CONCURRENCY, async (orderID) => {
+            const known = knownOrders && String(orderID) in knownOrders;
+            if (!known) return undefined;
+            return parseIntegerResult(await call('getProjectStatus', orderID)).value ?? null;
+        });
+
+        const nextKnown: Record<string, number | null> = {};
+        const emit: { orderID: number; previous?: number | null }[] = [];
+        const fetchForBaseline: number[] = [];
+
+        orderIDs.forEach((orderID, i) => {
+            const key = String(orderID);
+            const status = statuses[i];
+            if (knownOrders && key in knownOrders) {
+                nextKnown[key] = status ?? null;
+                if (knownOrders[key] !== nextKnown[key] && events.includes('statusChanged')) {
+                    emit.push({ orderID, previous: knownOrders[key] ?? null });
+                }
+                return;
+            }
+            // New order (or first activation, which only records a baseline): status comes with the object
+            fetchForBaseline.push(orderID);
+            if (knownOrders && events.includes('orderCreated')) emit.push({ orderID });
+        });
+
+        const lastID = orderIDs[orderIDs.length - 1];
+        const toFetch = Array.from(new Set([...fetchForBaseline, ...emit.map((e) => e.orderID)]));
+        // Manual "fetch test event" falls back to the latest order when nothing happened
+        if (isManual && emit.length === 0 && lastID !== undefined && !toFetch.includes(lastID)) {
+            toFetch.push(lastID);
+        }
+        const fetched = await mapWithConcurrency(toFetch, SEARCH_EXPANSION_CONCURRENCY, fetchOrder);
+        const orders = new Map(toFetch.map((orderID, i) => [orderID, fetched[i] as IDataObject]));
+
+        for (const orderID of fetchForBaseline) {
+            nextKnown[String(orderID)] = (orders.get(orderID)?.projectStatus as number | undefined) ?? null;
+        }
+
+        const out: IDataObject[] = emit.map(({ orderID, previous }) => {
+            const order = orders.get(orderID) ?? {};
+            if (previous === undefined) return { event: 'orderCreated', orderID, ...order };
+            return {
+                event: 'statusChanged',
+                orderID,
+                previousProjectStatus: previous,
+                previousProjectStatusLabel: previous !== null ? idToArchivStatusName(previous) : undefined,
+                ...order,
+            };
+        });
+        const latest = lastID !== undefined ? orders.get(lastID) : undefined;
+
+        // Manual "fetch test event" must not move the watermark
+        if (isManual) {
+            if (out.length === 0 && latest) {
+                out.push({ event: 'orderCreated', orderID: latest.orderID, ...latest });
+            }
+        } else {
+            state.knownOrders = nextKnown;
+            state.lastPollAt = now.toISOString();
+        }
+
+        if (out.length === 0) return null;
+        return [this.helpers.returnJsonArray(out)];
+    }
+}
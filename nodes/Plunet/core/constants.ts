@@ -5,3 +5,15 @@ export const NUMERIC_BOOLEAN_PARAMS = new Set<string>([
     'overwriteExistingPriceLines',
     'analyzeAndCopyResultToJob',
 ]);
+
+// Status codes Plunet returns when the UUID is unknown, expired or was logged out
+export const SESSION_EXPIRED_STATUS_CODES = new Set<number>([-2]);
+
+// Status messages / SOAP faults that indicate the same condition
+export const SESSION_EXPIRED_MESSAGE = /(session|uuid).*(invalid|expired|not valid|unknown)|(invalid|expired|unknown).*(session|uuid)/i;
+
+// Read-only operations (by SOAP operation name) that are safe to retry on transient failures
+export const READ_ONLY_OPERATION = /^(get|search|seek|download)/i;
+
+// Parallel get*Object calls when a search expands its ID list into full records
+export const SEARCH_EXPANSION_CONCURRENCY = 5;
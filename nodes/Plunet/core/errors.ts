@@ -1,3 +1,5 @@
+import { SESSION_EXPIRED_STATUS_CODES, SESSION_EXPIRED_MESSAGE } from './constants';
+
 export class SoapRequestError extends Error {
   constructor(
     public readonly op: string,
@@ -105,6 +107,15 @@ export class PlunetErrorFactory {
   }
 }
 
+/**
+ * True when Plunet rejected the request because the session UUID is no longer valid
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+  if (!(error instanceof PlunetOperationError)) return false;
+  if (error.statusCode !== undefined && SESSION_EXPIRED_STATUS_CODES.has(error.statusCode)) return true;
+  return SESSION_EXPIRED_MESSAGE.test(error.statusMessage || '');
+}
+
 export function throwForSoapFaultOrStatus(
   xmlObj: any,
   op: string,
@@ -1,9 +1,11 @@
 import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
-import { buildEnvelope, sendSoap, parseXml, extractResultBase } from './soap';
-import { throwForSoapFaultOrStatus } from './errors';
+import { buildEnvelope, sendSoap, parseXml, extractResultBase, type RetryOptions } from './soap';
+import { throwForSoapFaultOrStatus, isSessionExpiredError } from './errors';
+import { clearSession, clearSessionByUuid, ensureSession } from './session';
 import { toSoapParamValue } from './utils';
+import { READ_ONLY_OPERATION } from './constants';
 import { DebugManager } from './debug';
-import { Creds } from './types';
+import { Creds, SoapContext } from './types';
 
 export type ParamOrder = Record<string, string[]>;
 export type NumericBoolSet = Set<string>;
@@ -16,6 +18,7 @@ export interface ExecuteConfig {
   parseResult: (xml: string, op: string) => IDataObject | IDataObject[];
   getSessionId: (ctx: IExecuteFunctions, itemIndex: number) => Promise<string>;
   creds?: Creds; // Add credentials for debug mode
+  timeoutMs?: number; // Request timeout (credential value or node override)
   resource?: string; // Add resource name for error context
 }
 
@@ -26,21 +29,30 @@ export async function executeOperation(
   cfg: ExecuteConfig,
   itemIndex: number,
 ): Promise<IDataObject | IDataObject[]> {
-  const sessionId = await cfg.getSessionId(ctx, itemIndex);
-  const bodyXml =
-    cfg.buildCustomBodyXml?.(op, itemParams, sessionId, ctx, itemIndex) ??
-    defaultBodyXml(op, itemParams, sessionId, cfg.paramOrder, cfg.numericBooleans);
-
-  const envelope = buildEnvelope(op, bodyXml);
   const soapAction = cfg.soapActionFor(op);
-  
+  let sessionId = '';
+  const buildRequestEnvelope = async () => {
+    sessionId = await cfg.getSessionId(ctx, itemIndex);
+    const bodyXml =
+      cfg.buildCustomBodyXml?.(op, itemParams, sessionId, ctx, itemIndex) ??
+      defaultBodyXml(op, itemParams, sessionId, cfg.paramOrder, cfg.numericBooleans);
+    return buildEnvelope(op, bodyXml);
+  };
+
+  let envelope = await buildRequestEnvelope();
+
   try {
-    const xml = await sendSoap(ctx, cfg.url, soapAction, envelope);
-    const xmlObj = parseXml(xml);
-    const { statusCode, statusMessage } = extractResultBase(xmlObj);
-    
-    // Pass resource name to error handler
-    throwForSoapFaultOrStatus(xmlObj, op, cfg.url, soapAction, envelope, statusCode, statusMessage, cfg.resource);
+    let xml: string;
+    try {
+      xml = await sendAndCheck(ctx, cfg, op, soapAction, envelope);
+    } catch (error) {
+      // Cached UUID was rejected: log in again and replay the request once.
+      // Only the rejected UUID is dropped, so concurrent items keep a fresh login made meanwhile.
+      if (!isSessionExpiredError(error)) throw error;
+      clearSessionByUuid(ctx, sessionId);
+      envelope = await buildRequestEnvelope();
+      xml = await sendAndCheck(ctx, cfg, op, soapAction, envelope);
+    }
 
     const result = cfg.parseResult(xml, op);
     
@@ -76,6 +88,76 @@ export async function executeOperation(
   }
 }
 
+/** Retry policy from the credentials; write operations only when explicitly enabled. */
+export function retryOptionsFor(creds: Creds | undefined, op: string): RetryOptions | undefined {
+  const maxRetries = creds?.retryMaxAttempts ?? 0;
+  if (!creds || maxRetries <= 0) return undefined;
+  if (!READ_ONLY_OPERATION.test(op) && !creds.retryWriteOperations) return undefined;
+  return { maxRetries, baseDelayMs: creds.retryBaseDelay ?? 500 };
+}
+
+/** Send one envelope and throw on SOAP faults / error status codes. */
+async function sendAndCheck(
+  ctx: IExecuteFunctions,
+  cfg: ExecuteConfig,
+  op: string,
+  soapAction: string,
+  envelope: string,
+): Promise<string> {
+  const xml = await sendSoap(ctx, cfg.url, soapAction, envelope, {
+    retry: retryOptionsFor(cfg.creds, op),
+    timeoutMs: cfg.timeoutMs ?? cfg.creds?.timeout,
+    soapVersion: cfg.creds?.soapVersion,
+  });
+  const xmlObj = parseXml(xml);
+  const { statusCode, statusMessage } = extractResultBase(xmlObj);
+
+  // Pass resource name to error handler
+  throwForSoapFaultOrStatus(xmlObj, op, cfg.url, soapAction, envelope, statusCode, statusMessage, cfg.resource);
+  return xml;
+}
+
+/**
+ * Call a single operation outside the item loop (triggers, webhook lifecycle hooks) where no ExecuteConfig exists.
+ * Takes the session from `ensureSession`, throws on SOAP faults / error status codes and
+ * replays once with a fresh login when the cached UUID was rejected.
+ */
+export async function callSoapOperation(
+  ctx: SoapContext,
+  creds: Creds,
+  url: string,
+  op: string,
+  buildBodyXml: (sessionId: string) => string,
+  resource?: string,
+): Promise<string> {
+  const scheme = creds.useHttps ? 'https' : 'http';
+  const apiUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}/PlunetAPI`;
+  const timeoutMs = creds.timeout ?? 30000;
+  const soapAction = `http://API.Integration/${op}`;
+
+  const attempt = async () => {
+    const sessionId = await ensureSession(ctx, creds, apiUrl, timeoutMs, 0);
+    const envelope = buildEnvelope(op, buildBodyXml(sessionId));
+    const xml = await sendSoap(ctx, url, soapAction, envelope, {
+      retry: retryOptionsFor(creds, op),
+      timeoutMs,
+      soapVersion: creds.soapVersion,
+    });
+    const xmlObj = parseXml(xml);
+    const { statusCode, statusMessage } = extractResultBase(xmlObj);
+    throwForSoapFaultOrStatus(xmlObj, op, url, soapAction, envelope, statusCode, statusMessage, resource);
+    return xml;
+  };
+
+  try {
+    return await attempt();
+  } catch (error) {
+    if (!isSessionExpiredError(error)) throw error;
+    clearSession(ctx, creds);
+    return attempt();
+  }
+}
+
 function defaultBodyXml(
   op: string,
   params: IDataObject,
@@ -214,6 +214,7 @@ export const MANDATORY_FIELDS: Record<string, string[]> = {
     'contactSeekByExternalID': ['ExternalID'],
     'contactInsert2': ['customerID'],
     'contactUpdate': ['customerContactID'],
+    'contactDelete': ['contactID'],
 };
 
 // ============================================================================
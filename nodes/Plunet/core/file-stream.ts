@@ -0,0 +1,96 @@
+import { Readable } from 'stream';
+import { Buffer } from 'buffer';
+
+/** Bytes of a base64 string once decoded (padding and whitespace excluded). */
+export function base64ByteLength(base64: string): number {
+    const clean = base64.replace(/\s+/g, '');
+    const padding = clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0;
+    return Math.floor((clean.length * 3) / 4) - padding;
+}
+
+/** Length of the base64 text for a file of `bytes` bytes. */
+export function base64EncodedLength(bytes: number): number {
+    return Math.ceil(bytes / 3) * 4;
+}
+
+/**
+ * Base64-encode a byte stream chunk by chunk.
+ * Bytes that do not fill a 3-byte group are carried into the next chunk, so the output equals encoding the whole file.
+ */
+export async function* encodeBase64(source: AsyncIterable<Buffer>): AsyncGenerator<string> {
+    let carry: Buffer = Buffer.alloc(0);
+    for await (const chunk of source) {
+        const bytes = carry.length ? Buffer.concat([carry, chunk]) : Buffer.from(chunk);
+        const whole = bytes.length - (bytes.length % 3);
+        if (whole) yield bytes.subarray(0, whole).toString('base64');
+        carry = bytes.subarray(whole);
+    }
+    if (carry.length) yield carry.toString('base64');
+}
+
+const FILE_CONTENT_OPEN = /<(?:\w+:)?fileContent\b[^>]*?(\/?)>/;
+
+/**
+ * Split a streamed file response (FileResult) into the decoded file bytes and the rest of the XML.
+ *
+ * `data` yields the bytes of <fileContent> as it arrives; base64 text is decoded in groups of four characters.
+ * `xml()` returns the response with an empty <fileContent>, ready for the usual status checks once `data` has ended.
+ */
+export function extractFileContent(response: AsyncIterable<Buffer | string>): {
+    data: Readable;
+    xml: () => string;
+    bytesReceived: () => number;
+} {
+    // Latin-1 maps every byte to one char, so multi-byte characters split across chunks survive until xml() decodes them
+    let head = '';
+    let tail = '';
+    let carry = '';
+    let bytes = 0;
+    let state: 'before' | 'inside' | 'after' = 'before';
+
+    const decode = (text: string): Buffer => {
+        const buf = Buffer.from(text, 'base64');
+        bytes += buf.length;
+        return buf;
+    };
+
+    async function* fileBytes(): AsyncGenerator<Buffer> {
+        for await (const chunk of response) {
+            let text: string = typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('latin1');
+
+            if (state === 'before') {
+                head += text;
+                const open = FILE_CONTENT_OPEN.exec(head);
+                if (!open) continue;
+                const contentStart = open.index + open[0].length;
+                text = head.slice(contentStart);
+                head = head.slice(0, contentStart);
+                state = open[1] ? 'after' : 'inside';
+                if (state === 'after') {
+                    tail += text;
+                    continue;
+                }
+            }
+
+            if (state === 'inside') {
+                // Base64 never contains '<', so the first one starts </fileContent>
+                const end = text.indexOf('<');
+                carry += (end < 0 ? text : text.slice(0, end)).replace(/\s+/g, '');
+                const whole = end < 0 ? carry.length - (carry.length % 4) : carry.length;
+                if (whole) yield decode(carry.slice(0, whole));
+                carry = carry.slice(whole);
+                if (end < 0) continue;
+                state = 'after';
+                text = text.slice(end);
+            }
+
+            tail += text;
+        }
+    }
+
+    return {
+        data: Readable.from(fileBytes()),
+        xml: () => Buffer.from(head + tail, 'latin1').toString('utf8'),
+        bytesReceived: () => bytes,
+    };
+}
@@ -16,6 +16,7 @@ export {
     extractSoapFault, 
     extractStatusMessage,
     parseIntegerResult,
+    parseDoubleResult,
     parseIntegerArrayResult,
     parseStringResult,
     parseStringArrayResult,
@@ -32,7 +33,7 @@ export {
 } from './xml';
 
 // Utils (with specific exports to avoid conflicts)
-export { labelize, asNonEmpty } from './utils';
+export { labelize, asNonEmpty, mapWithConcurrency, splitPayload } from './utils';
 
 // Parsers
 export * from './parsers';
@@ -50,7 +51,10 @@ export {
     createOptionsProperty,
     createTypedProperty,
     handleVoidResult,
-    handleResultWithFallback
+    handleResultWithFallback,
+    createSearchExpansionProperties,
+    expandSearchResult,
+    executeServiceOperation
 } from './service-utils';
 
 // Field definitions
@@ -0,0 +1,86 @@
+// nodes/Plunet/core/parsers/callback.ts
+import { xmlParser, asNum, asStr } from '../xml';
+import { idToEventTypeName } from '../../enums/event-type';
+
+// ============================================================================
+// DTO TYPES
+// ============================================================================
+
+/** A SOAP callback sent by Plunet to a registered callback address. */
+export type CallbackEventDTO = {
+    callbackOperation: string;      // e.g. "receiveNotifyCallback"
+    authenticationCode?: string;    // echoes the ServerAuthenticationString from registration
+    eventType?: number;
+    eventTypeName?: string;
+    mainID?: number;                // ID of the changed entity (JobID, OrderID, ...)
+    mainIDField?: string;           // tag the ID was read from
+    projectType?: number;
+    fields: Record<string, unknown>;  // remaining callback parameters (auth code excluded)
+    [k: string]: unknown;
+};
+
+// ============================================================================
+// KEY LOOKUPS
+// ============================================================================
+
+const AUTH_KEYS = ['authenticationcode', 'serverauthenticationstring', 'authcode'];
+const MAIN_ID_KEYS = ['jobid', 'orderid', 'requestid', 'quoteid', 'customerid', 'resourceid', 'itemid', 'mainid'];
+
+function findKey(obj: Record<string, unknown>, candidates: string[]): string | undefined {
+    const keys = Object.keys(obj);
+    for (const c of candidates) {
+        const hit = keys.find((k) => k.toLowerCase() === c);
+        if (hit) return hit;
+    }
+    return undefined;
+}
+
+/** Drop attribute keys (namespaces etc.) added by the shared parser. */
+function stripAttributes(obj: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(obj).filter(([k]) => !k.startsWith('@_')));
+}
+
+// ============================================================================
+// MAIN PARSERS
+// ============================================================================
+
+/**
+ * Parse an incoming Plunet callback envelope.
+ * Returns null when the payload is not a SOAP envelope with a body operation.
+ */
+export function parseCallbackEvent(xml: string): CallbackEventDTO | null {
+    if (!xml || !xml.trim()) return null;
+
+    const root = xmlParser.parse(xml) as Record<string, unknown>;
+    const env = (root?.Envelope ?? {}) as Record<string, unknown>;
+    const body = (env?.Body ?? null) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object') return null;
+
+    const callbackOperation = Object.keys(body).find((k) => !k.startsWith('@_'));
+    if (!callbackOperation) return null;
+
+    const opNode = body[callbackOperation];
+    const fields = opNode && typeof opNode === 'object'
+        ? stripAttributes(opNode as Record<string, unknown>)
+        : {};
+
+    const authKey = findKey(fields, AUTH_KEYS);
+    const eventKey = findKey(fields, ['eventtype']);
+    const idKey = findKey(fields, MAIN_ID_KEYS);
+    const projectTypeKey = findKey(fields, ['projecttype']);
+
+    const eventType = eventKey ? asNum(fields[eventKey]) : undefined;
+    const authenticationCode = authKey ? asStr(fields[authKey]) : undefined;
+    if (authKey) delete fields[authKey];
+
+    return {
+        callbackOperation,
+        authenticationCode,
+        eventType,
+        eventTypeName: idToEventTypeName(eventType),
+        mainID: idKey ? asNum(fields[idKey]) : undefined,
+        mainIDField: idKey,
+        projectType: projectTypeKey ? asNum(fields[projectTypeKey]) : undefined,
+        fields,
+    };
+}
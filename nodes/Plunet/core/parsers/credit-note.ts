@@ -0,0 +1,137 @@
+// nodes/Plunet/core/parsers/credit-note.ts
+import {
+    asNum,
+    asStr,
+    getBodyRoot,
+    getReturnNode,
+    extractResultBase,
+    type ResultBase,
+    findFirstTagBlock,
+    findAllTagBlocks,
+    deepObjectify,
+    firstNonEmptyKey,
+} from './common';
+
+// ============================================================================
+// DTO TYPES
+// ============================================================================
+
+export type CreditNoteDTO = {
+    creditNoteID?: number;
+    creditNoteNumber?: string;
+    invoiceID?: number;
+    customerID?: number;
+    creditNoteDate?: string;
+    subject?: string;
+    briefDescription?: string;
+    status?: number;
+    currencyCode?: string;
+    [k: string]: unknown;
+};
+
+export type CreditNoteItemDTO = {
+    creditNoteItemID?: number;
+    creditNoteID?: number;
+    invoiceItemID?: number;
+    briefDescription?: string;
+    totalPrice?: number;
+    taxType?: number;
+    [k: string]: unknown;
+};
+
+// ============================================================================
+// ENTITY DETECTORS
+// ============================================================================
+
+function isLikelyCreditNote(x: any): boolean {
+    if (!x || typeof x !== 'object') return false;
+    return (
+        'creditNoteID' in x || 'CreditNoteID' in x ||
+        'creditNoteNumber' in x || 'creditNoteNr' in x
+    );
+}
+
+// ============================================================================
+// ENTITY COERCERS
+// ============================================================================
+
+function coerceCreditNote(raw: any): CreditNoteDTO {
+    const c: CreditNoteDTO = {
+        creditNoteID: asNum(firstNonEmptyKey(raw, ['creditNoteID', 'CreditNoteID'])),
+        creditNoteNumber: asStr(firstNonEmptyKey(raw, ['creditNoteNumber', 'creditNoteNr', 'CreditNoteNumber'])),
+        invoiceID: asNum(firstNonEmptyKey(raw, ['invoiceID', 'InvoiceID'])),
+        customerID: asNum(firstNonEmptyKey(raw, ['customerID', 'CustomerID'])),
+        creditNoteDate: asStr(firstNonEmptyKey(raw, ['creditNoteDate', 'CreditNoteDate'])),
+        subject: asStr(firstNonEmptyKey(raw, ['subject', 'Subject'])),
+        briefDescription: asStr(firstNonEmptyKey(raw, ['briefDescription', 'BriefDescription'])),
+        status: asNum(firstNonEmptyKey(raw, ['status', 'Status'])),
+        currencyCode: asStr(firstNonEmptyKey(raw, ['currencyCode', 'CurrencyCode', 'currency'])),
+    };
+
+    for (const [k, v] of Object.entries(raw)) {
+        if (!(k in c)) (c as any)[k] = v;
+    }
+    return c;
+}
+
+function coerceCreditNoteItem(raw: any): CreditNoteItemDTO {
+    const i: CreditNoteItemDTO = {
+        creditNoteItemID: asNum(firstNonEmptyKey(raw, ['creditNoteItemID', 'CreditNoteItemID'])),
+        creditNoteID: asNum(firstNonEmptyKey(raw, ['creditNoteID', 'CreditNoteID'])),
+        invoiceItemID: asNum(firstNonEmptyKey(raw, ['invoiceItemID', 'InvoiceItemID'])),
+        briefDescription: asStr(firstNonEmptyKey(raw, ['briefDescription', 'BriefDescription'])),
+        totalPrice: asNum(firstNonEmptyKey(raw, ['totalPrice', 'TotalPrice'])),
+        taxType: asNum(firstNonEmptyKey(raw, ['taxType', 'TaxType'])),
+    };
+
+    for (const [k, v] of Object.entries(raw)) {
+        if (!(k in i)) (i as any)[k] = v;
+    }
+    return i;
+}
+
+// ============================================================================
+// ARRAY PICKERS
+// ============================================================================
+
+function pickCreditNoteArray(ret: any): any[] {
+    const out: any[] = [];
+    for (const d of Array.isArray(ret?.data) ? ret.data : [ret?.data]) {
+        if (isLikelyCreditNote(d)) out.push(d);
+        else if (isLikelyCreditNote(d?.CreditNote)) out.push(d.CreditNote);
+    }
+    return out;
+}
+
+// ============================================================================
+// MAIN PARSERS
+// ============================================================================
+
+export function parseCreditNoteListResult(xml: string): ResultBase & { creditNotes: CreditNoteDTO[] } {
+    const base = extractResultBase(xml);
+    const body = getBodyRoot(xml);
+    const ret = getReturnNode(body) as any;
+
+    const creditNotes = pickCreditNoteArray(ret).map(coerceCreditNote);
+    return { ...base, creditNotes };
+}
+
+export function parseCreditNoteResult(xml: string): ResultBase & { creditNote?: CreditNoteDTO } {
+    const base = extractResultBase(xml);
+    const dataScope = findFirstTagBlock(xml, 'data');
+    if (!dataScope) {
+        return { ...base, creditNote: undefined };
+    }
+
+    const o = deepObjectify(dataScope);
+    return { ...base, creditNote: coerceCreditNote(o.data || o) };
+}
+
+export function parseCreditNoteItemListResult(xml: string): ResultBase & { items: CreditNoteItemDTO[] } {
+    const base = extractResultBase(xml);
+    const items = findAllTagBlocks(xml, 'data').map((itemXml) => {
+        const o = deepObjectify(itemXml);
+        return coerceCreditNoteItem(o.data || o);
+    });
+    return { ...base, items };
+}
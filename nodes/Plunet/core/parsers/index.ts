@@ -30,5 +30,23 @@ export * from './workflow';
 // Order-related parsers
 export * from './order';
 
+// Quote-related parsers
+export * from './quote';
+
+// Request-related parsers
+export * from './request';
+
+// Invoice-related parsers
+export * from './invoice';
+
+// Credit note parsers and DTOs
+export * from './credit-note';
+
+// Payable-related parsers
+export * from './payable';
+
 // Item-related parsers
-export * from './item';
\ No newline at end of file
+export * from './item';
+
+// Callback (webhook) parsers
+export * from './callback';
@@ -0,0 +1,83 @@
+import { ResultBase, getDataNode, asStr, asNum } from '../xml';
+import { extractResultBase, findAllTagBlocks, deepObjectify } from './common';
+
+export interface Invoice {
+    invoiceID?: number;
+    invoiceNumber?: string;
+    briefDescription?: string;
+    subject?: string;
+    invoiceDate?: string;
+    paymentDueDate?: string;
+    status?: number;
+    statusLabel?: string;
+    currencyCode?: string;
+    customerID?: number;
+}
+
+export interface InvoiceItem {
+    invoiceItemID?: number;
+    invoiceID?: number;
+    orderID?: number;
+    itemNumber?: string;
+    briefDescription?: string;
+    languageCombination?: string;
+    totalPrice?: number;
+    taxType?: number;
+    taxTypeLabel?: string;
+}
+
+export interface InvoiceResult extends ResultBase {
+    invoice?: Invoice;
+}
+
+export interface InvoiceItemListResult extends ResultBase {
+    items: InvoiceItem[];
+}
+
+export function parseInvoiceResult(xml: string): InvoiceResult {
+    const base: ResultBase = {
+        statusCode: asNum(xml.match(/<statusCode>(.*?)<\/statusCode>/)?.[1]),
+        statusMessage: asStr(xml.match(/<statusMessage>(.*?)<\/statusMessage>/)?.[1]),
+    };
+
+    const data = getDataNode(xml);
+    if (!data || typeof data !== 'object') {
+        return { ...base, invoice: undefined };
+    }
+
+    const invoiceData = data as Record<string, unknown>;
+    const invoice: Invoice = {};
+
+    invoice.invoiceID = asNum(invoiceData.invoiceID);
+    invoice.invoiceNumber = asStr(invoiceData.invoiceNr ?? invoiceData.invoiceNumber);
+    invoice.briefDescription = asStr(invoiceData.briefDescription);
+    invoice.subject = asStr(invoiceData.subject);
+    invoice.invoiceDate = asStr(invoiceData.invoiceDate);
+    invoice.paymentDueDate = asStr(invoiceData.paymentDueDate);
+    invoice.status = asNum(invoiceData.status ?? invoiceData.invoiceStatus);
+    invoice.currencyCode = asStr(invoiceData.currencyCode);
+    invoice.customerID = asNum(invoiceData.customerID);
+
+    return { ...base, invoice };
+}
+
+function mapInvoiceItem(itemXml: string): InvoiceItem {
+    const o = deepObjectify(itemXml);
+    const d = o.data || o;
+    return {
+        invoiceItemID: asNum(d.invoiceItemID),
+        invoiceID: asNum(d.invoiceID),
+        orderID: asNum(d.orderID),
+        itemNumber: asStr(d.itemNumber),
+        briefDescription: asStr(d.briefDescription),
+        languageCombination: asStr(d.languageCombination),
+        totalPrice: asNum(d.totalPrice),
+        taxType: asNum(d.taxType),
+    };
+}
+
+export function parseInvoiceItemListResult(xml: string): InvoiceItemListResult {
+    const base = extractResultBase(xml);
+    const items = findAllTagBlocks(xml, 'data').map(mapInvoiceItem);
+    return { ...base, items };
+}
@@ -0,0 +1,85 @@
+import { ResultBase, getDataNode, asStr, asNum } from '../xml';
+import { extractResultBase, findAllTagBlocks, deepObjectify } from './common';
+
+export interface Payable {
+    payableID?: number;
+    invoiceNumber?: string;
+    externalInvoiceNumber?: string;
+    resourceID?: number;
+    invoiceDate?: string;
+    paymentDueDate?: string;
+    paidDate?: string;
+    status?: number;
+    statusLabel?: string;
+    currencyCode?: string;
+    memo?: string;
+}
+
+export interface PayableItem {
+    payableItemID?: number;
+    payableID?: number;
+    jobID?: number;
+    projectType?: number;
+    briefDescription?: string;
+    jobDate?: string;
+    totalPrice?: number;
+    taxType?: number;
+    taxTypeLabel?: string;
+}
+
+export interface PayableResult extends ResultBase {
+    payable?: Payable;
+}
+
+export interface PayableItemListResult extends ResultBase {
+    items: PayableItem[];
+}
+
+export function parsePayableResult(xml: string): PayableResult {
+    const base: ResultBase = {
+        statusCode: asNum(xml.match(/<statusCode>(.*?)<\/statusCode>/)?.[1]),
+        statusMessage: asStr(xml.match(/<statusMessage>(.*?)<\/statusMessage>/)?.[1]),
+    };
+
+    const data = getDataNode(xml);
+    if (!data || typeof data !== 'object') {
+        return { ...base, payable: undefined };
+    }
+
+    const payableData = data as Record<string, unknown>;
+    const payable: Payable = {};
+
+    payable.payableID = asNum(payableData.payableID ?? payableData.PayableID);
+    payable.invoiceNumber = asStr(payableData.invoiceNumber ?? payableData.invoiceNr);
+    payable.externalInvoiceNumber = asStr(payableData.externalInvoiceNumber);
+    payable.resourceID = asNum(payableData.resourceID);
+    payable.invoiceDate = asStr(payableData.invoiceDate);
+    payable.paymentDueDate = asStr(payableData.paymentDueDate);
+    payable.paidDate = asStr(payableData.paidDate);
+    payable.status = asNum(payableData.status);
+    payable.currencyCode = asStr(payableData.currencyCode ?? payableData.currency);
+    payable.memo = asStr(payableData.memo);
+
+    return { ...base, payable };
+}
+
+function mapPayableItem(itemXml: string): PayableItem {
+    const o = deepObjectify(itemXml);
+    const d = o.data || o;
+    return {
+        payableItemID: asNum(d.payableItemID),
+        payableID: asNum(d.payableID),
+        jobID: asNum(d.jobID),
+        projectType: asNum(d.projectType),
+        briefDescription: asStr(d.briefDescription),
+        jobDate: asStr(d.jobDate),
+        totalPrice: asNum(d.totalPrice),
+        taxType: asNum(d.taxType),
+    };
+}
+
+export function parsePayableItemListResult(xml: string): PayableItemListResult {
+    const base = extractResultBase(xml);
+    const items = findAllTagBlocks(xml, 'data').map(mapPayableItem);
+    return { ...base, items };
+}
@@ -0,0 +1,59 @@
+import { ResultBase, getDataNode, asStr, asNum } from '../xml';
+
+export interface Quote {
+    quoteID?: number;
+    quoteNumber?: string;
+    projectName?: string;
+    subject?: string;
+    referenceNumber?: string;
+    creationDate?: string;
+    status?: number;
+    statusLabel?: string;
+    currency?: string;
+    rate?: number;
+    customerID?: number;
+    customerContactID?: number;
+    projectManagerID?: number;
+    projectManagerMemo?: string;
+    requestID?: number;
+    externalID?: string;
+    projectCategory?: string;
+}
+
+export interface QuoteResult extends ResultBase {
+    quote?: Quote;
+}
+
+export function parseQuoteResult(xml: string): QuoteResult {
+    const base: ResultBase = {
+        statusCode: asNum(xml.match(/<statusCode>(.*?)<\/statusCode>/)?.[1]),
+        statusMessage: asStr(xml.match(/<statusMessage>(.*?)<\/statusMessage>/)?.[1]),
+    };
+
+    const data = getDataNode(xml);
+    if (!data || typeof data !== 'object') {
+        return { ...base, quote: undefined };
+    }
+
+    const quoteData = data as Record<string, unknown>;
+    const quote: Quote = {};
+
+    quote.quoteID = asNum(quoteData.quoteID);
+    quote.quoteNumber = asStr(quoteData.quoteNumber ?? quoteData.quoteNo);
+    quote.projectName = asStr(quoteData.projectName);
+    quote.subject = asStr(quoteData.subject);
+    quote.referenceNumber = asStr(quoteData.referenceNumber);
+    quote.creationDate = asStr(quoteData.creationDate);
+    quote.status = asNum(quoteData.status);
+    quote.currency = asStr(quoteData.currency);
+    quote.rate = asNum(quoteData.rate);
+    quote.customerID = asNum(quoteData.customerID);
+    quote.customerContactID = asNum(quoteData.customerContactID);
+    quote.projectManagerID = asNum(quoteData.projectManagerID);
+    quote.projectManagerMemo = asStr(quoteData.projectManagerMemo);
+    quote.requestID = asNum(quoteData.requestID);
+    quote.externalID = asStr(quoteData.externalID);
+    quote.projectCategory = asStr(quoteData.projectCategory);
+
+    return { ...base, quote };
+}
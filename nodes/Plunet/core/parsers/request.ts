@@ -0,0 +1,53 @@
+import { ResultBase, getDataNode, asStr, asNum } from '../xml';
+
+export interface Request {
+    requestID?: number;
+    requestNumber?: string;
+    briefDescription?: string;
+    subject?: string;
+    creationDate?: string;
+    deliveryDate?: string;
+    quotationDate?: string;
+    status?: number;
+    statusLabel?: string;
+    customerID?: number;
+    orderID?: number;
+    quoteID?: number;
+    masterProjectID?: number;
+    price?: number;
+}
+
+export interface RequestResult extends ResultBase {
+    request?: Request;
+}
+
+export function parseRequestResult(xml: string): RequestResult {
+    const base: ResultBase = {
+        statusCode: asNum(xml.match(/<statusCode>(.*?)<\/statusCode>/)?.[1]),
+        statusMessage: asStr(xml.match(/<statusMessage>(.*?)<\/statusMessage>/)?.[1]),
+    };
+
+    const data = getDataNode(xml);
+    if (!data || typeof data !== 'object') {
+        return { ...base, request: undefined };
+    }
+
+    const requestData = data as Record<string, unknown>;
+    const request: Request = {};
+
+    request.requestID = asNum(requestData.requestID);
+    request.requestNumber = asStr(requestData.requestNumber ?? requestData.requestNo);
+    request.briefDescription = asStr(requestData.briefDescription);
+    request.subject = asStr(requestData.subject);
+    request.creationDate = asStr(requestData.creationDate);
+    request.deliveryDate = asStr(requestData.deliveryDate);
+    request.quotationDate = asStr(requestData.quotationDate);
+    request.status = asNum(requestData.status);
+    request.customerID = asNum(requestData.customerID);
+    request.orderID = asNum(requestData.orderID);
+    request.quoteID = asNum(requestData.quoteID);
+    request.masterProjectID = asNum(requestData.masterProjectID);
+    request.price = asNum(requestData.price);
+
+    return { ...base, request };
+}
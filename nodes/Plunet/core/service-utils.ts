@@ -6,8 +6,8 @@ import type { Creds, Service, NonEmptyArray, OperationMetadata, ServiceOperation
 import type { ExecuteConfig } from './executor';
 import { ensureSession } from './session';
 import { executeOperation } from './executor';
-import { labelize, asNonEmpty } from './utils';
-import { NUMERIC_BOOLEAN_PARAMS } from './constants';
+import { labelize, asNonEmpty, mapWithConcurrency } from './utils';
+import { NUMERIC_BOOLEAN_PARAMS, SEARCH_EXPANSION_CONCURRENCY } from './constants';
 import { extractStatusMessage } from './xml';
 import { escapeXml } from './soap';
 
@@ -60,6 +60,7 @@ export function createStandardExecuteConfig(
         buildCustomBodyXml: buildCustomBodyXml || (() => null),
         parseResult,
         creds, // Pass credentials for debug mode
+        timeoutMs, // Credential timeout or node override
         resource, // Pass resource name for error context
     };
 }
@@ -98,6 +99,29 @@ export async function executeStandardService(
     return Array.isArray(result) ? result[0] || {} : result;
 }
 
+/**
+ * Run another service's operation with the given parameters instead of the node's own
+ */
+export async function executeServiceOperation(
+    svc: Service,
+    operation: string,
+    params: IDataObject,
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+): Promise<IDataObject> {
+    const customCtx = {
+        ...ctx,
+        getNodeParameter: (paramName: string, _itemIdx: number, defaultValue?: any) =>
+            paramName in params ? params[paramName] : defaultValue,
+    } as IExecuteFunctions;
+
+    const result = await svc.execute(operation, customCtx, creds, `${baseUrl}/${svc.endpoint}`, baseUrl, timeoutMs, itemIndex);
+    return Array.isArray(result) ? result[0] || {} : result;
+}
+
 // ============================================================================
 // COMMON UI PROPERTY GENERATION
 // ============================================================================
@@ -434,3 +458,88 @@ export function buildSearchFilterXml(
     lines.push(`</${filterType}>`);
     return lines.join('\n      ');
 }
+
+/**
+ * Build the <SearchFilter> for DataOrder30/DataQuote30.search: language code, the mandatory
+ * <timeFrame> (dates as YYYY-MM-DD) and the set optional filters, in `fields` order.
+ * Order and quote searches differ only in their status field (itemStatus / quoteStatus).
+ */
+export function buildTimeFrameSearchFilterXml(
+    languageCode: string,
+    dateRelation: number,
+    dateFrom: string,
+    dateTo: string,
+    searchFilters: IDataObject,
+    fields: readonly string[],
+): string {
+    let searchFilter = `<SearchFilter>`;
+    searchFilter += `\n<languageCode>${escapeXml(languageCode)}</languageCode>`;
+
+    searchFilter += `\n<timeFrame>`;
+    for (const [tag, value] of [['dateFrom', dateFrom], ['dateTo', dateTo]] as const) {
+        const formatted = value ? new Date(value).toISOString().split('T')[0] : undefined;
+        if (formatted) searchFilter += `\n<${tag}>${escapeXml(formatted)}</${tag}>`;
+    }
+    searchFilter += `\n<dateRelation>${dateRelation}</dateRelation>`;
+    searchFilter += `\n</timeFrame>`;
+
+    for (const name of fields) {
+        const value = searchFilters[name];
+        if (value) searchFilter += `\n<${name}>${escapeXml(String(value))}</${name}>`;
+    }
+
+    searchFilter += `\n</SearchFilter>`;
+    return searchFilter;
+}
+
+// ============================================================================
+// SEARCH RESULT EXPANSION
+// ============================================================================
+
+/**
+ * "Return Full Objects" / "Limit" properties for search operations that return ID lists
+ */
+export function createSearchExpansionProperties(resource: string, operation: string): INodeProperties[] {
+    return [
+        createBooleanProperty(
+            'returnFullObjects',
+            'Return Full Objects',
+            'Whether to fetch the full record for every ID found and return one item per record',
+            resource,
+            operation,
+        ),
+        createNumberProperty(
+            'limit',
+            'Limit',
+            'Max number of results to return (0 = no limit)',
+            resource,
+            operation,
+        ),
+    ];
+}
+
+/**
+ * Apply "Limit" and "Return Full Objects" to an IntegerArray search payload.
+ * With full objects enabled, `fetchOne` runs per ID with bounded concurrency
+ * and one payload per record is returned.
+ */
+export async function expandSearchResult(
+    ctx: IExecuteFunctions,
+    itemIndex: number,
+    payload: IDataObject,
+    fetchOne: (id: number) => Promise<IDataObject | IDataObject[]>,
+): Promise<IDataObject | IDataObject[]> {
+    const limit = Number(ctx.getNodeParameter('limit', itemIndex, 0)) || 0;
+    const returnFullObjects = ctx.getNodeParameter('returnFullObjects', itemIndex, false) as boolean;
+
+    const ids = Array.isArray(payload.data) ? (payload.data as number[]) : [];
+    const limited = limit > 0 ? ids.slice(0, limit) : ids;
+    if (!returnFullObjects) {
+        return { ...payload, data: limited };
+    }
+
+    return await mapWithConcurrency(limited, SEARCH_EXPANSION_CONCURRENCY, async (id) => {
+        const result = await fetchOne(id);
+        return Array.isArray(result) ? result[0] || {} : result;
+    });
+}
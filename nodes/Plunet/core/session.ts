@@ -1,25 +1,43 @@
-import type { IExecuteFunctions } from 'n8n-workflow';
-import type { Creds } from './types';
+import type { Creds, SoapContext } from './types';
 import { escapeXml, sendSoapWithFallback } from './soap';
 import { extractUuid } from './xml';
 
 /** In-workflow global cache for sessions keyed by base host (scheme+host). */
 type SessionMap = Record<string, { uuid: string; issuedAt: number }>;
 
+/**
+ * Logins in flight, so concurrent callers share one login.
+ * Scoped to the execution's static data object and keyed by host and user, so no other account's UUID is handed out.
+ */
+const pendingLogins = new WeakMap<object, Map<string, Promise<string>>>();
+
 function staticKeyForCreds(creds: Creds) {
     const scheme = creds.useHttps ? 'https' : 'http';
     return `${scheme}://${(creds.baseHost || '').replace(/\/$/, '')}`;
 }
 
-/** Read a cached UUID for these credentials, if present. */
-export function getSession(ctx: IExecuteFunctions, creds: Creds): string | null {
+function loginKeyForCreds(creds: Creds) {
+    return `${staticKeyForCreds(creds)}|${creds.username || ''}`;
+}
+
+/** Read a cached UUID for these credentials, if present and younger than `maxSessionAge`. */
+export function getSession(ctx: SoapContext, creds: Creds): string | null {
     const sd = ctx.getWorkflowStaticData('global') as unknown as { plunetSessions?: SessionMap };
     const key = staticKeyForCreds(creds);
-    return sd.plunetSessions?.[key]?.uuid ?? null;
+    const sessions = sd.plunetSessions;
+    const entry = sessions?.[key];
+    if (!sessions || !entry) return null;
+
+    const maxAgeMs = (creds.maxSessionAge ?? 0) * 60 * 1000;
+    if (maxAgeMs > 0 && Date.now() - entry.issuedAt > maxAgeMs) {
+        delete sessions[key];
+        return null;
+    }
+    return entry.uuid;
 }
 
 /** Save a UUID for these credentials. */
-export function saveSession(ctx: IExecuteFunctions, creds: Creds, uuid: string): void {
+export function saveSession(ctx: SoapContext, creds: Creds, uuid: string): void {
     const sd = ctx.getWorkflowStaticData('global') as unknown as { plunetSessions?: SessionMap };
     if (!sd.plunetSessions) sd.plunetSessions = {};
     const key = staticKeyForCreds(creds);
@@ -27,22 +45,32 @@ export function saveSession(ctx: IExecuteFunctions, creds: Creds, uuid: string):
 }
 
 /** Clear a cached session for these credentials. */
-export function clearSession(ctx: IExecuteFunctions, creds: Creds): void {
+export function clearSession(ctx: SoapContext, creds: Creds): void {
     const sd = ctx.getWorkflowStaticData('global') as unknown as { plunetSessions?: SessionMap };
     if (!sd.plunetSessions) return;
     const key = staticKeyForCreds(creds);
     delete sd.plunetSessions[key];
 }
 
+/** Clear whichever cached session holds this UUID (for callers without credentials at hand). */
+export function clearSessionByUuid(ctx: SoapContext, uuid: string): void {
+    const sd = ctx.getWorkflowStaticData('global') as unknown as { plunetSessions?: SessionMap };
+    if (!sd.plunetSessions) return;
+    for (const [key, entry] of Object.entries(sd.plunetSessions)) {
+        if (entry.uuid === uuid) delete sd.plunetSessions[key];
+    }
+}
+
 /**
  * Ensure a UUID is available for these credentials.
  * If none is cached, performs a login against the provided PlunetAPI URL and stores it.
+ * Concurrent calls for the same host and user within one execution wait for a single login.
  *
  * @param urlPlunetAPI Fully-qualified PlunetAPI endpoint (e.g., https://host/PlunetAPI)
  * @param itemIndex    Passed through for parity with callers; not used here
  */
 export async function ensureSession(
-    ctx: IExecuteFunctions,
+    ctx: SoapContext,
     creds: Creds,
     urlPlunetAPI: string,
     timeoutMs: number,
@@ -51,6 +79,31 @@ export async function ensureSession(
     const cached = getSession(ctx, creds);
     if (cached) return cached;
 
+    const scope = ctx.getWorkflowStaticData('global') as object;
+    let logins = pendingLogins.get(scope);
+    if (!logins) {
+        logins = new Map();
+        pendingLogins.set(scope, logins);
+    }
+    const key = loginKeyForCreds(creds);
+    const pending = logins.get(key);
+    if (pending) return pending;
+
+    const login = loginAndSave(ctx, creds, urlPlunetAPI, timeoutMs);
+    logins.set(key, login);
+    try {
+        return await login;
+    } finally {
+        logins.delete(key);
+    }
+}
+
+async function loginAndSave(
+    ctx: SoapContext,
+    creds: Creds,
+    urlPlunetAPI: string,
+    timeoutMs: number,
+): Promise<string> {
     const env11 = `<?xml version="1.0" encoding="utf-8"?>
 <soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:api="http://API.Integration/">
   <soapenv:Header/>
@@ -64,7 +117,7 @@ export async function ensureSession(
 
     const soapAction = 'http://API.Integration/login';
 
-    const body = await sendSoapWithFallback(ctx, urlPlunetAPI, env11, soapAction, timeoutMs);
+    const body = await sendSoapWithFallback(ctx, urlPlunetAPI, env11, soapAction, timeoutMs, creds.soapVersion);
 
     const uuid = extractUuid(body);
     if (!uuid) {
@@ -1,6 +1,9 @@
-import type { IExecuteFunctions, IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { sleep, type IDataObject, type IHttpRequestOptions } from 'n8n-workflow';
+import type { SoapContext } from './types';
 import { XMLParser } from 'fast-xml-parser';
 import { extractStatusMessage } from './xml';
+import { Readable } from 'stream';
+import { Buffer } from 'buffer';
 
 export function escapeXml(s: string): string {
     return s
@@ -11,32 +14,79 @@ export function escapeXml(s: string): string {
         .replace(/'/g, '&apos;');
 }
 
-type Resp = { ok: true; body: string } | { ok: false; error?: string; body?: string };
+type Failure = { ok: false; error?: string; body?: string; status?: number; transient?: boolean };
+type Resp<B = string> = { ok: true; body: B } | Failure;
+
+export type SoapVersion = '1.1' | '1.2';
+export type SoapVersionSetting = 'auto' | SoapVersion;
+
+const SOAP11_NS = 'http://schemas.xmlsoap.org/soap/envelope/';
+const SOAP12_NS = 'http://www.w3.org/2003/05/soap-envelope';
+
+/** Negotiated SOAP version per endpoint URL (scheme + host + path), shared by all executions of this process. */
+const soapVersionCache = new Map<string, SoapVersion>();
+
+/** Retry policy for transient transport failures (timeouts, connection resets, 502/503/504). */
+export type RetryOptions = {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs?: number;
+};
+
+/** Per-request transport options for sendSoap. */
+export type SoapRequestOptions = {
+    retry?: RetryOptions;
+    timeoutMs?: number; // defaults to 30000
+    soapVersion?: SoapVersionSetting; // defaults to 'auto'
+};
+
+const TRANSIENT_HTTP_STATUS = new Set([502, 503, 504]);
+const TRANSIENT_ERROR_CODES = new Set([
+    'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNABORTED', 'ECONNRESET', 'EPIPE', 'EAI_AGAIN',
+]);
+
+function isTransientFailure(err: {
+    message?: string;
+    code?: string;
+    httpCode?: string;
+    cause?: { code?: string };
+    response?: { status?: number; statusCode?: number };
+}): boolean {
+    const status = Number(err?.response?.status ?? err?.response?.statusCode ?? err?.httpCode);
+    if (TRANSIENT_HTTP_STATUS.has(status)) return true;
+    const code = err?.code ?? err?.cause?.code;
+    if (code && TRANSIENT_ERROR_CODES.has(code)) return true;
+    return /timeout|timed out|socket hang up/i.test(err?.message ?? '');
+}
+
+/** Exponential backoff with jitter: half the window fixed, half random. */
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+    const window = Math.min(retry.maxDelayMs ?? 30000, retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(window / 2 + Math.random() * (window / 2));
+}
+
+async function withRetry<B>(retry: RetryOptions | undefined, send: () => Promise<Resp<B>>): Promise<Resp<B>> {
+    let resp = await send();
+    for (let attempt = 1; retry && attempt <= retry.maxRetries; attempt++) {
+        if (resp.ok || !resp.transient) break;
+        await sleep(backoffDelay(attempt, retry));
+        resp = await send();
+    }
+    return resp;
+}
 
 async function requestSoap(
-    ctx: IExecuteFunctions,
+    ctx: SoapContext,
     url: string,
     envelope: string,
     soapAction: string,
     version: '1.1' | '1.2',
     timeoutMs: number,
 ): Promise<Resp> {
-    const headers =
-        version === '1.1'
-            ? {
-                'Content-Type': 'text/xml; charset=utf-8',
-                SOAPAction: `"${soapAction}"`,
-                Accept: 'text/xml, application/soap+xml, */*;q=0.8',
-            }
-            : {
-                'Content-Type': `application/soap+xml; charset=utf-8; action="${soapAction}"`,
-                Accept: 'application/soap+xml, text/xml, */*;q=0.8',
-            };
-
     const options: IHttpRequestOptions = {
         method: 'POST',
         url,
-        headers,
+        headers: soapHeaders(version, soapAction),
         body: envelope,
         timeout: timeoutMs,
         json: false,
@@ -46,30 +96,105 @@ async function requestSoap(
         const body = (await ctx.helpers.httpRequest(options)) as unknown as string;
         return { ok: true, body };
     } catch (e) {
-        const err = e as { message?: string; response?: { body?: unknown } };
-        const respBody = err?.response?.body;
-        const snippet = typeof respBody === 'string' ? respBody.slice(0, 400) : err?.message ?? 'request failed';
-        return { ok: false, error: snippet, body: typeof respBody === 'string' ? respBody : undefined };
+        return toFailure(e);
     }
 }
 
-function toSoap12Envelope(env11: string): string {
-    return env11.replace('http://schemas.xmlsoap.org/soap/envelope/', 'http://www.w3.org/2003/05/soap-envelope');
+function soapHeaders(version: SoapVersion, soapAction: string): IDataObject {
+    return version === '1.1'
+        ? {
+            'Content-Type': 'text/xml; charset=utf-8',
+            SOAPAction: `"${soapAction}"`,
+            Accept: 'text/xml, application/soap+xml, */*;q=0.8',
+        }
+        : {
+            'Content-Type': `application/soap+xml; charset=utf-8; action="${soapAction}"`,
+            Accept: 'application/soap+xml, text/xml, */*;q=0.8',
+        };
+}
+
+function toFailure(e: unknown): Failure {
+    const err = e as { message?: string; code?: string; httpCode?: string; response?: { body?: unknown; status?: number } };
+    const respBody = err?.response?.body;
+    const snippet = typeof respBody === 'string' ? respBody.slice(0, 400) : err?.message ?? 'request failed';
+    return {
+        ok: false,
+        error: snippet,
+        body: typeof respBody === 'string' ? respBody : undefined,
+        status: Number(err?.response?.status ?? err?.httpCode) || undefined,
+        transient: isTransientFailure(err),
+    };
+}
+
+/** Rewrite the envelope namespace so it matches the headers of the version being sent. */
+function toEnvelopeVersion(envelope: string, version: SoapVersion): string {
+    return version === '1.2'
+        ? envelope.replace(SOAP11_NS, SOAP12_NS)
+        : envelope.replace(SOAP12_NS, SOAP11_NS);
+}
+
+/** The server rejected the SOAP version itself (wrong content type / envelope namespace). */
+function isVersionMismatch(resp: Failure): boolean {
+    if (resp.status === 415) return true;
+    return /VersionMismatch|Unsupported Media Type|content type/i.test(resp.body ?? resp.error ?? '');
+}
+
+/** A SOAP fault in the requested version proves the endpoint speaks that version. */
+function isUnderstoodFault(resp: Failure): boolean {
+    return !!resp.body && /<(\w+:)?Fault\b/.test(resp.body) && !isVersionMismatch(resp);
+}
+
+/**
+ * Send one request in the right SOAP version.
+ * 'auto' uses the cached version for this endpoint, or tries 1.1 then 1.2 once and remembers the winner.
+ */
+async function sendNegotiated(
+    ctx: SoapContext,
+    url: string,
+    envelope: string,
+    soapAction: string,
+    timeoutMs: number,
+    setting: SoapVersionSetting = 'auto',
+): Promise<Resp> {
+    return negotiateVersion(url, setting, (version) =>
+        requestSoap(ctx, url, toEnvelopeVersion(envelope, version), soapAction, version, timeoutMs),
+    );
+}
+
+/** Version negotiation behind sendNegotiated; `send` issues one request in the given version. */
+async function negotiateVersion<B>(
+    url: string,
+    setting: SoapVersionSetting,
+    send: (version: SoapVersion) => Promise<Resp<B>>,
+): Promise<Resp<B>> {
+    if (setting !== 'auto') return send(setting);
+
+    const cached = soapVersionCache.get(url);
+    const first: SoapVersion = cached ?? '1.1';
+    const second: SoapVersion = first === '1.1' ? '1.2' : '1.1';
+
+    const resp = await send(first);
+    if (resp.ok || isUnderstoodFault(resp)) {
+        soapVersionCache.set(url, first);
+        return resp;
+    }
+    if (resp.transient || (cached && !isVersionMismatch(resp))) return resp;
+
+    const fallback = await send(second);
+    if (fallback.ok || isUnderstoodFault(fallback)) soapVersionCache.set(url, second);
+    return fallback;
 }
 
-/** Try SOAP 1.1 then fall back to 1.2. Throws with server statusMessage appended when available. */
+/** Send with SOAP version negotiation. Throws with server statusMessage appended when available. */
 export async function sendSoapWithFallback(
-    ctx: IExecuteFunctions,
+    ctx: SoapContext,
     url: string,
     env11: string,
     soapAction: string,
     timeoutMs: number,
+    soapVersion: SoapVersionSetting = 'auto',
 ): Promise<string> {
-    let resp = await requestSoap(ctx, url, env11, soapAction, '1.1', timeoutMs);
-    if (!resp.ok) {
-        const env12 = toSoap12Envelope(env11);
-        resp = await requestSoap(ctx, url, env12, soapAction, '1.2', timeoutMs);
-    }
+    const resp = await sendNegotiated(ctx, url, env11, soapAction, timeoutMs, soapVersion);
     if (!resp.ok) {
         const sm = resp.body ? extractStatusMessage(resp.body) : null;
         const msg = resp.error || 'Request failed';
@@ -147,17 +272,17 @@ export function buildEnvelope(op: string, bodyXml: string): string {
 }
 
 export async function sendSoap(
-  ctx: IExecuteFunctions,
+  ctx: SoapContext,
   url: string,
   soapAction: string,
   envelope: string,
+  options: SoapRequestOptions = {},
 ): Promise<string> {
-  // Use the same approach as the working sendSoapWithFallback
-  let resp = await requestSoap(ctx, url, envelope, soapAction, '1.1', 30000);
-  if (!resp.ok) {
-    const env12 = toSoap12Envelope(envelope);
-    resp = await requestSoap(ctx, url, env12, soapAction, '1.2', 30000);
-  }
+  // Same version negotiation as sendSoapWithFallback; transient failures are retried as a whole
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const resp = await withRetry(options.retry, () =>
+    sendNegotiated(ctx, url, envelope, soapAction, timeoutMs, options.soapVersion),
+  );
   if (!resp.ok) {
     // Enhanced error logging to help debug 415 errors
     const errorDetails = {
@@ -186,6 +311,97 @@ export async function sendSoap(
   return resp.body;
 }
 
+/**
+ * Request envelope with one large element streamed in between `head` and `tail`
+ * (e.g. <FileByteStream> of upload_Document). `content` is called once per attempt.
+ */
+export type StreamedEnvelope = {
+  head: string;
+  tail: string;
+  content: () => AsyncIterable<Buffer | string>;
+  contentLength: number; // bytes yielded by content()
+};
+
+/**
+ * sendSoap for large payloads: the envelope is streamed from `content` and the response body is returned as a
+ * stream, so a document is never held in memory as one base64 string. Version negotiation and retries as in sendSoap.
+ */
+export async function sendSoapStream(
+  ctx: SoapContext,
+  url: string,
+  soapAction: string,
+  envelope: string | StreamedEnvelope,
+  options: SoapRequestOptions = {},
+): Promise<Readable> {
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const parts: StreamedEnvelope =
+    typeof envelope === 'string' ? { head: envelope, tail: '', content: async function* () {}, contentLength: 0 } : envelope;
+  const resp = await withRetry(options.retry, () =>
+    negotiateVersion(url, options.soapVersion ?? 'auto', (version) =>
+      requestSoapStream(ctx, url, { ...parts, head: toEnvelopeVersion(parts.head, version) }, soapAction, version, timeoutMs),
+    ),
+  );
+  if (!resp.ok) {
+    const { PlunetErrorFactory } = await import('./errors');
+    throw PlunetErrorFactory.createNetworkError(
+      'SOAP_REQUEST',
+      'PlunetAPI',
+      `SOAP request failed: ${resp.error || 'Request failed'}`,
+      `${parts.head}${parts.tail}`,
+    );
+  }
+  return resp.body;
+}
+
+async function requestSoapStream(
+  ctx: SoapContext,
+  url: string,
+  envelope: StreamedEnvelope,
+  soapAction: string,
+  version: SoapVersion,
+  timeoutMs: number,
+): Promise<Resp<Readable>> {
+  const head = Buffer.from(envelope.head, 'utf8');
+  const tail = Buffer.from(envelope.tail, 'utf8');
+  async function* chunks() {
+    yield head;
+    for await (const chunk of envelope.content()) yield typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+    yield tail;
+  }
+
+  const options: IHttpRequestOptions = {
+    method: 'POST',
+    url,
+    // A known length avoids chunked transfer encoding, which not every Plunet front end accepts
+    headers: { ...soapHeaders(version, soapAction), 'Content-Length': head.length + envelope.contentLength + tail.length },
+    body: Readable.from(chunks()),
+    timeout: timeoutMs,
+    json: false,
+    encoding: 'stream',
+    returnFullResponse: true,
+    ignoreHttpStatusErrors: true,
+  };
+
+  try {
+    const res = (await ctx.helpers.httpRequest(options)) as { body: Readable; statusCode: number };
+    if (res.statusCode < 400) return { ok: true, body: res.body };
+
+    // Error bodies are small (faults, proxy pages): read them for the usual diagnostics
+    const parts: Buffer[] = [];
+    for await (const chunk of res.body) parts.push(Buffer.from(chunk));
+    const body = Buffer.concat(parts).toString('utf8');
+    return {
+      ok: false,
+      error: body.slice(0, 400) || `HTTP ${res.statusCode}`,
+      body,
+      status: res.statusCode,
+      transient: TRANSIENT_HTTP_STATUS.has(res.statusCode),
+    };
+  } catch (e) {
+    return toFailure(e);
+  }
+}
+
 const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', textNodeName: 'text' });
 
 export function parseXml(xml: string): any { return parser.parse(xml); }
@@ -4,6 +4,7 @@ import {
     INodeProperties,
     INodePropertyOptions,
     IBinaryData,
+    IHttpRequestOptions,
 } from 'n8n-workflow';
 
 export type NonEmptyArray<T> = [T, ...T[]];
@@ -14,11 +15,25 @@ export type Creds = {
     username?: string;
     password?: string;
     timeout?: number; // ms
+    maxSessionAge?: number; // minutes; 0 = reuse the cached UUID until Plunet rejects it
+    retryMaxAttempts?: number; // retries after a transient failure; 0 = off
+    retryBaseDelay?: number; // ms, doubled per attempt
+    retryWriteOperations?: boolean; // also retry non-read operations (may duplicate writes)
+    soapVersion?: 'auto' | '1.1' | '1.2'; // 'auto' negotiates once per endpoint
     enableDebugMode?: boolean; // debug mode for SOAP envelope logging
 };
 
 export type SessionMap = Record<string, { uuid: string; issuedAt: number }>;
 
+/**
+ * Minimal n8n context needed to send SOAP requests and cache sessions.
+ * Satisfied by execute, poll, hook and load-options functions alike.
+ */
+export type SoapContext = {
+    getWorkflowStaticData(type: string): IDataObject;
+    helpers: { httpRequest(requestOptions: IHttpRequestOptions): Promise<any> };
+};
+
 /**
  * Centralized operation metadata for consistent UI display and SOAP operations
  */
@@ -74,7 +89,7 @@ export type Service = {
         baseUrl: string,
         timeoutMs: number,
         itemIndex: number,
-    ): Promise<IDataObject>;
+    ): Promise<IDataObject | IDataObject[]>;   // an array is emitted as one item per element
 
     // Optional special handling methods
     needsSpecialHandling?: (operation: string) => boolean;
@@ -1,3 +1,5 @@
+import type { IDataObject } from 'n8n-workflow';
+
 export const labelize = (s: string) => {
   if (!s) return '';
   
@@ -44,3 +46,59 @@ export function toSoapParamValue(
   if (value === null || value === undefined) return '';
   return String(value);
 }
+
+/**
+ * Map over `items` with at most `limit` calls in flight.
+ * Results keep the input order; the first rejection is rethrown and no new calls are started.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Split a service payload on its list field (items, priceLines, data, ...).
+ * The first array holding objects wins over arrays of scalars (e.g. `addresses` over `addressIDs`);
+ * without one, the first array field is split.
+ * Object elements become the item json; scalar elements are wrapped as `{ [field]: value }`.
+ * Scalar fields of the payload (statusMessage, statusCode, ...) are copied onto every element,
+ * with the element's own fields taking precedence.
+ * Payloads without an array field are returned unchanged as a single entry.
+ */
+export function splitPayload(payload: IDataObject): IDataObject[] {
+  const isObject = (v: unknown): v is IDataObject => v !== null && typeof v === 'object' && !Array.isArray(v);
+  const arrayFields = Object.keys(payload).filter((k) => Array.isArray(payload[k]));
+  const field =
+    arrayFields.find((k) => (payload[k] as unknown[]).some(isObject)) ?? arrayFields[0];
+  if (!field) return [payload];
+
+  const parent: IDataObject = {};
+  for (const [k, v] of Object.entries(payload)) {
+    if (v !== undefined && (v === null || typeof v !== 'object')) parent[k] = v;
+  }
+
+  return (payload[field] as unknown[]).map((el) =>
+    isObject(el) ? { ...parent, ...el } : ({ ...parent, [field]: el } as IDataObject),
+  );
+}
@@ -241,6 +241,20 @@ export function parseIntegerResult(xml: string): ResultBase & { value?: number }
     return { ...base, value: found };
 }
 
+/** DoubleResult (amounts, rates): exposes { value } like IntegerResult. */
+export function parseDoubleResult(xml: string): ResultBase & { value?: number } {
+    const base = extractResultBase(xml);
+    const data = getDataNode(xml) as any;
+
+    const value =
+        asNum(data?.value) ??
+        asNum(data?.double) ??
+        asNum(data?.data) ??
+        asNum((typeof data === 'number' || typeof data === 'string') ? data : undefined);
+
+    return { ...base, value };
+}
+
 /** Returns { data: number[] } for IntegerArrayResult. Handles multiple <data> items. */
 export function parseIntegerArrayResult(xml: string): ResultBase & { data: number[] } {
     const base = extractResultBase(xml);
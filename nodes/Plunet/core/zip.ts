@@ -0,0 +1,265 @@
+// Minimal ZIP support for document archives: deflate/stored entries, no ZIP64, no encryption.
+import { Readable, Transform, pipeline } from 'stream';
+import { Buffer } from 'buffer';
+import * as zlib from 'zlib';
+import { promises as fsp, createReadStream } from 'fs';
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const MAX_32 = 0xffffffff;
+
+/** A file to add to an archive; `open` is called once, when the entry is written. */
+export type ZipEntrySource = {
+    name: string; // '/'-separated path inside the archive
+    open: () => AsyncIterable<Buffer> | Promise<AsyncIterable<Buffer>>;
+};
+
+/** A file inside an archive, from the central directory. */
+export type ZipEntry = {
+    name: string;
+    size: number; // uncompressed
+    compressedSize: number;
+    crc: number;
+    method: number;
+    headerOffset: number;
+};
+
+/** Random access to an archive, so only the central directory and the entry being read are in memory. */
+export type ZipSource = {
+    size: number;
+    read(position: number, length: number): Promise<Buffer>;
+    stream(start: number, length: number): AsyncIterable<Buffer>;
+};
+
+let crcTable: number[] | undefined;
+
+function crc32(chunk: Buffer, crc: number): number {
+    // zlib.crc32 exists from Node 22.2; the table is the fallback for older runtimes
+    if (typeof zlib.crc32 === 'function') return zlib.crc32(chunk, crc);
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable.push(c >>> 0);
+        }
+    }
+    let c = crc ^ MAX_32;
+    for (let i = 0; i < chunk.length; i++) c = (crcTable[(c ^ (chunk[i] as number)) & 0xff] as number) ^ (c >>> 8);
+    return (c ^ MAX_32) >>> 0;
+}
+
+/** MS-DOS date and time fields used in ZIP headers. */
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/** Run `source` through a zlib transform and iterate the output; errors on either side end the iteration. */
+function throughZlib(source: AsyncIterable<Buffer>, transform: Transform): AsyncIterable<Buffer> {
+    pipeline(Readable.from(source), transform, () => undefined);
+    return transform;
+}
+
+/**
+ * Write a ZIP archive as a stream. Entries are deflated one after the other while they are read;
+ * sizes and CRC follow each entry in a data descriptor, so nothing is buffered beyond zlib's window.
+ */
+export function createZip(entries: ZipEntrySource[]): Readable {
+    async function* archive(): AsyncGenerator<Buffer> {
+        const central: Buffer[] = [];
+        const { time, date } = dosDateTime(new Date());
+        let offset = 0;
+
+        for (const entry of entries) {
+            const name = Buffer.from(entry.name, 'utf8');
+            const header = Buffer.alloc(30);
+            header.writeUInt32LE(LOCAL_HEADER, 0);
+            header.writeUInt16LE(20, 4);
+            header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 6);
+            header.writeUInt16LE(METHOD_DEFLATE, 8);
+            header.writeUInt16LE(time, 10);
+            header.writeUInt16LE(date, 12);
+            header.writeUInt16LE(name.length, 26);
+            yield header;
+            yield name;
+
+            let crc = 0;
+            let size = 0;
+            let compressedSize = 0;
+            const source = await entry.open();
+            async function* tap(): AsyncGenerator<Buffer> {
+                for await (const chunk of source) {
+                    const buf = Buffer.from(chunk);
+                    crc = crc32(buf, crc);
+                    size += buf.length;
+                    yield buf;
+                }
+            }
+            for await (const chunk of throughZlib(tap(), zlib.createDeflateRaw())) {
+                compressedSize += chunk.length;
+                yield chunk;
+            }
+            if (size > MAX_32 || offset > MAX_32) throw new Error(`ZIP archives over 4 GB are not supported (${entry.name})`);
+
+            const descriptor = Buffer.alloc(16);
+            descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+            descriptor.writeUInt32LE(crc, 4);
+            descriptor.writeUInt32LE(compressedSize, 8);
+            descriptor.writeUInt32LE(size, 12);
+            yield descriptor;
+
+            const record = Buffer.alloc(46);
+            record.writeUInt32LE(CENTRAL_HEADER, 0);
+            record.writeUInt16LE(20, 4);
+            record.writeUInt16LE(20, 6);
+            record.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8, 8);
+            record.writeUInt16LE(METHOD_DEFLATE, 10);
+            record.writeUInt16LE(time, 12);
+            record.writeUInt16LE(date, 14);
+            record.writeUInt32LE(crc, 16);
+            record.writeUInt32LE(compressedSize, 20);
+            record.writeUInt32LE(size, 24);
+            record.writeUInt16LE(name.length, 28);
+            record.writeUInt32LE(offset, 42);
+            central.push(record, name);
+
+            offset += header.length + name.length + compressedSize + descriptor.length;
+        }
+
+        const centralDirectory = Buffer.concat(central);
+        if (offset + centralDirectory.length > MAX_32) throw new Error('ZIP archives over 4 GB are not supported');
+        yield centralDirectory;
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(offset, 16);
+        yield end;
+    }
+    return Readable.from(archive());
+}
+
+/** Archive held in memory. */
+export function bufferZipSource(buf: Buffer): ZipSource {
+    return {
+        size: buf.length,
+        read: async (position, length) => buf.subarray(position, position + length),
+        stream: (start, length) => Readable.from([buf.subarray(start, start + length)]),
+    };
+}
+
+/** Archive on disk (e.g. n8n's filesystem binary data mode), read in place. */
+export async function fileZipSource(path: string): Promise<ZipSource> {
+    const { size } = await fsp.stat(path);
+    return {
+        size,
+        read: async (position, length) => {
+            const handle = await fsp.open(path, 'r');
+            try {
+                const buf = Buffer.alloc(length);
+                const { bytesRead } = await handle.read(buf, 0, length, position);
+                return buf.subarray(0, bytesRead);
+            } finally {
+                await handle.close();
+            }
+        },
+        stream: (start, length) =>
+            length > 0 ? createReadStream(path, { start, end: start + length - 1 }) : Readable.from([]),
+    };
+}
+
+/** True when the data starts with a ZIP local file header (or is an empty archive). */
+export async function isZip(source: ZipSource): Promise<boolean> {
+    if (source.size < 4) return false;
+    const sig = (await source.read(0, 4)).readUInt32LE(0);
+    return sig === LOCAL_HEADER || sig === END_OF_CENTRAL_DIR;
+}
+
+/** List the file entries of an archive from its central directory; directory entries are left out. */
+export async function readZipEntries(source: ZipSource): Promise<ZipEntry[]> {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    const tailLength = Math.min(source.size, 22 + 0xffff);
+    const tail = await source.read(source.size - tailLength, tailLength);
+    let end = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Not a ZIP archive (end of central directory not found)');
+
+    const count = tail.readUInt16LE(end + 10);
+    const cdSize = tail.readUInt32LE(end + 12);
+    const cdOffset = tail.readUInt32LE(end + 16);
+    if (count === 0xffff || cdSize === MAX_32 || cdOffset === MAX_32) throw new Error('ZIP64 archives are not supported');
+
+    const cd = await source.read(cdOffset, cdSize);
+    const entries: ZipEntry[] = [];
+    let p = 0;
+    for (let i = 0; i < count; i++) {
+        if (cd.readUInt32LE(p) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP central directory');
+        const flags = cd.readUInt16LE(p + 8);
+        const nameLength = cd.readUInt16LE(p + 28);
+        const extraLength = cd.readUInt16LE(p + 30);
+        const commentLength = cd.readUInt16LE(p + 32);
+        const nameBytes = cd.subarray(p + 46, p + 46 + nameLength);
+        const name = nameBytes.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1');
+        const entry: ZipEntry = {
+            name,
+            method: cd.readUInt16LE(p + 10),
+            crc: cd.readUInt32LE(p + 16),
+            compressedSize: cd.readUInt32LE(p + 20),
+            size: cd.readUInt32LE(p + 24),
+            headerOffset: cd.readUInt32LE(p + 42),
+        };
+        p += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (flags & 0x0001) throw new Error(`Encrypted ZIP entries are not supported (${name})`);
+        if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+            throw new Error(`Unsupported ZIP compression method ${entry.method} (${name})`);
+        }
+        entries.push(entry);
+    }
+    return entries;
+}
+
+/**
+ * Stream the uncompressed content of one entry.
+ * Size and CRC are checked against the central directory while streaming, so callers that announced
+ * `entry.size` (e.g. as Content-Length) get an error instead of more, fewer or different bytes.
+ */
+export async function openZipEntry(source: ZipSource, entry: ZipEntry): Promise<AsyncIterable<Buffer>> {
+    const header = await source.read(entry.headerOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP local header (${entry.name})`);
+    const start = entry.headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = source.stream(start, entry.compressedSize);
+    const content = entry.method === METHOD_STORED ? data : throughZlib(data, zlib.createInflateRaw());
+
+    async function* verified(): AsyncGenerator<Buffer> {
+        let crc = 0;
+        let size = 0;
+        for await (const chunk of content) {
+            const buf = Buffer.from(chunk);
+            size += buf.length;
+            if (size > entry.size) throw new Error(`ZIP entry is larger than its recorded size of ${entry.size} bytes (${entry.name})`);
+            crc = crc32(buf, crc);
+            yield buf;
+        }
+        if (size !== entry.size) throw new Error(`ZIP entry has ${size} bytes, ${entry.size} recorded (${entry.name})`);
+        if (crc !== entry.crc) throw new Error(`ZIP entry CRC mismatch (${entry.name})`);
+    }
+    return verified();
+}
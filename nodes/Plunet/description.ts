@@ -4,8 +4,15 @@ import { DataCustomer30CoreService } from './services/dataCustomer30.core';
 import { DataCustomer30MiscService } from './services/dataCustomer30.misc';
 import { DataResource30CoreService } from './services/dataResource30.core';
 import { DataResource30MiscService } from './services/dataResource30.misc';
+import { DataResource30PricesService } from './services/dataResource30.prices';
 import { DataOrder30CoreService } from './services/dataOrder30.core';
 import { DataOrder30MiscService } from './services/dataOrder30.misc';
+import { DataQuote30CoreService } from './services/dataQuote30.core';
+import { DataQuote30MiscService } from './services/dataQuote30.misc';
+import { DataRequest30Service } from './services/dataRequest30';
+import { DataOutgoingInvoice30Service } from './services/dataOutgoingInvoice30';
+import { DataPayable30Service } from './services/dataPayable30';
+import { DataCreditNote30Service } from './services/dataCreditNote30';
 import { DataJob30CoreService } from './services/dataJob30.core';
 import { DataJob30MiscService } from './services/dataJob30.misc';
 import { DataJob30PricesService } from './services/dataJob30.prices';
@@ -17,8 +24,10 @@ import { DataItem30CoreService } from './services/dataItem30.core';
 import { DataItem30MiscService } from './services/dataItem30.misc';
 import { DataItem30PricesService } from './services/dataItem30.prices';
 import { DataCustomerAddress30CoreService } from './services/dataCustomerAddress30.core';
+import { DataResourceAddress30CoreService } from './services/dataResourceAddress30.core';
 import { buildSubtitleLookup } from './core/service-utils';
 import { DataCustomerContact30CoreService } from './services/dataCustomerContact30.core';
+import { DataCustomerContact30MiscService } from './services/dataCustomerContact30.misc';
 
 
 const services = [
@@ -26,6 +35,11 @@ const services = [
     DataCustomer30CoreService,
     DataResource30CoreService,
     DataOrder30CoreService,
+    DataQuote30CoreService,
+    DataRequest30Service,
+    DataOutgoingInvoice30Service,
+    DataCreditNote30Service,
+    DataPayable30Service,
     DataItem30CoreService,
     DataJob30CoreService,        
     DataItem30PricesService,
@@ -34,12 +48,16 @@ const services = [
     DataCustomFields30Service,
     DataAdmin30Service, // New service added for testing
     DataCustomerAddress30CoreService,
+    DataResourceAddress30CoreService,
     DataCustomer30MiscService,
     DataResource30MiscService,
+    DataResource30PricesService,
     DataOrder30MiscService,
+    DataQuote30MiscService,
     DataItem30MiscService, 
     DataJob30MiscService,       
     DataCustomerContact30CoreService,
+    DataCustomerContact30MiscService,
     //DataJob30Service, // not used
 ] as const;
 
@@ -144,6 +162,39 @@ export const description: INodeTypeDescription = {
         },
         ...operationProperties,
         ...extraProps,
+        {
+            displayName: 'Options',
+            name: 'options',
+            type: 'collection',
+            placeholder: 'Add Option',
+            default: {},
+            description: 'Node-level settings that apply to every operation',
+            options: [
+                {
+                    displayName: 'Concurrency',
+                    name: 'concurrency',
+                    type: 'number',
+                    typeOptions: { minValue: 1, maxValue: 20 },
+                    default: 1,
+                    description: 'Max number of input items processed in parallel. Output order and item linking stay the same; all items share one Plunet session.',
+                },
+                {
+                    displayName: 'Split Results Into Items',
+                    name: 'splitResults',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to emit one item per element when the result holds a list (items, price lines, addresses, files, ...) instead of one item with a nested array',
+                },
+                {
+                    displayName: 'Timeout (ms)',
+                    name: 'timeout',
+                    type: 'number',
+                    typeOptions: { minValue: 0 },
+                    default: 0,
+                    description: 'Overrides the credential timeout for this operation. 0 uses the credential value.',
+                },
+            ],
+        },
     ],
     hints: [
         {
@@ -0,0 +1,46 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * EventType enum used by registerCallback_Notify / receiveNotifyCallback
+ * @see https://apidoc.plunet.com/latest/BM/API/SOAP/Enum/EventType.html
+ */
+export type EventTypeName =
+    | 'STATUS_CHANGED'
+    | 'NEW_ENTRY'
+    | 'DELETE_ENTRY';
+
+export const EventTypeIdByName: Record<EventTypeName, number> = {
+    STATUS_CHANGED: 1,
+    NEW_ENTRY: 2,
+    DELETE_ENTRY: 3,
+};
+
+const EventTypeNameById: Record<number, EventTypeName> = Object.fromEntries(
+    Object.entries(EventTypeIdByName).map(([k, v]) => [v, k as EventTypeName]),
+) as Record<number, EventTypeName>;
+
+export function idToEventTypeName(id?: number | null): EventTypeName | undefined {
+    if (id == null) return undefined;
+    return EventTypeNameById[id];
+}
+
+function pretty(name: EventTypeName): string {
+    switch (name) {
+        case 'STATUS_CHANGED': return 'Status changed';
+        case 'NEW_ENTRY': return 'New entry';
+        case 'DELETE_ENTRY': return 'Entry deleted';
+        default: {
+            const s = String(name);
+            return s.charAt(0) + s.slice(1).toLowerCase();
+        }
+    }
+}
+
+export const EventTypeOptions: INodePropertyOptions[] =
+    (Object.keys(EventTypeIdByName) as EventTypeName[])
+        .sort((a, b) => EventTypeIdByName[a] - EventTypeIdByName[b])
+        .map((name) => ({
+            name: `${pretty(name)} (${EventTypeIdByName[name]})`,
+            value: EventTypeIdByName[name],
+            description: name,
+        }));
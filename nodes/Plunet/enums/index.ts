@@ -12,6 +12,11 @@ export * from './archiv-status';
 export * from './address-type';
 export * from './resource-status';
 export * from './contact-person-status';
+export * from './event-type';
+export * from './quote-status';
+export * from './request-status';
+export * from './invoice-status';
+export * from './payable-status';
 // export * from './order';   // later
 // export * from './common';  // later
 
@@ -0,0 +1,49 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * InvoiceStatusType enum used by DataOutgoingInvoice30 getStatus / setStatus
+ * @see https://apidoc.plunet.com/latest/BM/API/SOAP/Enum/InvoiceStatusType.html
+ */
+export type InvoiceStatusName =
+    | 'IN_PREPARATION'
+    | 'OUTSTANDING'
+    | 'PAID'
+    | 'CANCELED';
+
+export const InvoiceStatusIdByName: Record<InvoiceStatusName, number> = {
+    IN_PREPARATION: 1,
+    OUTSTANDING: 2,
+    PAID: 3,
+    CANCELED: 4,
+};
+
+const InvoiceStatusNameById: Record<number, InvoiceStatusName> = Object.fromEntries(
+    Object.entries(InvoiceStatusIdByName).map(([k, v]) => [v, k as InvoiceStatusName]),
+) as Record<number, InvoiceStatusName>;
+
+export function idToInvoiceStatusName(id?: number | null): InvoiceStatusName | undefined {
+    if (id == null) return undefined;
+    return InvoiceStatusNameById[id];
+}
+
+function pretty(name: InvoiceStatusName): string {
+    switch (name) {
+        case 'IN_PREPARATION': return 'In preparation';
+        case 'OUTSTANDING': return 'Outstanding';
+        case 'PAID': return 'Paid';
+        case 'CANCELED': return 'Canceled';
+        default: {
+            const s = String(name);
+            return s.charAt(0) + s.slice(1).toLowerCase();
+        }
+    }
+}
+
+export const InvoiceStatusOptions: INodePropertyOptions[] =
+    (Object.keys(InvoiceStatusIdByName) as InvoiceStatusName[])
+        .sort((a, b) => InvoiceStatusIdByName[a] - InvoiceStatusIdByName[b])
+        .map((name) => ({
+            name: `${pretty(name)} (${InvoiceStatusIdByName[name]})`,
+            value: InvoiceStatusIdByName[name],
+            description: name,
+        }));
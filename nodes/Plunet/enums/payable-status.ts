@@ -0,0 +1,52 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * PayableStatusType enum used by DataPayable30 getStatus / setStatus
+ * @see https://apidoc.plunet.com/latest/BM/API/SOAP/Enum/PayableStatusType.html
+ */
+export type PayableStatusName =
+    | 'OUTSTANDING'
+    | 'CHECKED'
+    | 'ACCEPTED'
+    | 'PAID'
+    | 'CANCELED';
+
+export const PayableStatusIdByName: Record<PayableStatusName, number> = {
+    OUTSTANDING: 1,
+    CHECKED: 2,
+    ACCEPTED: 3,
+    PAID: 4,
+    CANCELED: 5,
+};
+
+const PayableStatusNameById: Record<number, PayableStatusName> = Object.fromEntries(
+    Object.entries(PayableStatusIdByName).map(([k, v]) => [v, k as PayableStatusName]),
+) as Record<number, PayableStatusName>;
+
+export function idToPayableStatusName(id?: number | null): PayableStatusName | undefined {
+    if (id == null) return undefined;
+    return PayableStatusNameById[id];
+}
+
+function pretty(name: PayableStatusName): string {
+    switch (name) {
+        case 'OUTSTANDING': return 'Outstanding';
+        case 'CHECKED': return 'Checked';
+        case 'ACCEPTED': return 'Accepted';
+        case 'PAID': return 'Paid';
+        case 'CANCELED': return 'Canceled';
+        default: {
+            const s = String(name);
+            return s.charAt(0) + s.slice(1).toLowerCase();
+        }
+    }
+}
+
+export const PayableStatusOptions: INodePropertyOptions[] =
+    (Object.keys(PayableStatusIdByName) as PayableStatusName[])
+        .sort((a, b) => PayableStatusIdByName[a] - PayableStatusIdByName[b])
+        .map((name) => ({
+            name: `${pretty(name)} (${PayableStatusIdByName[name]})`,
+            value: PayableStatusIdByName[name],
+            description: name,
+        }));
@@ -0,0 +1,58 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * QuoteStatusType enum used by DataQuote30 getStatus / setStatus
+ * @see https://apidoc.plunet.com/latest/BM/API/SOAP/Enum/QuoteStatusType.html
+ */
+export type QuoteStatusName =
+    | 'PENDING'
+    | 'REVISED'
+    | 'REJECTED'
+    | 'CHANGED_INTO_ORDER'
+    | 'EXPIRED'
+    | 'CANCELED'
+    | 'NEW_AUTO_CREATED'
+    | 'CHECK_CLEARANCE';
+
+export const QuoteStatusIdByName: Record<QuoteStatusName, number> = {
+    PENDING: 1,
+    REVISED: 2,
+    REJECTED: 3,
+    CHANGED_INTO_ORDER: 4,
+    EXPIRED: 5,
+    CANCELED: 6,
+    NEW_AUTO_CREATED: 7,
+    CHECK_CLEARANCE: 8,
+};
+
+const QuoteStatusNameById: Record<number, QuoteStatusName> = Object.fromEntries(
+    Object.entries(QuoteStatusIdByName).map(([k, v]) => [v, k as QuoteStatusName]),
+) as Record<number, QuoteStatusName>;
+
+export function idToQuoteStatusName(id?: number | null): QuoteStatusName | undefined {
+    if (id == null) return undefined;
+    return QuoteStatusNameById[id];
+}
+
+function pretty(name: QuoteStatusName): string {
+    switch (name) {
+        case 'PENDING': return 'Pending';
+        case 'REVISED': return 'Revised';
+        case 'REJECTED': return 'Rejected';
+        case 'CHANGED_INTO_ORDER': return 'Changed into Order';
+        case 'EXPIRED': return 'Expired';
+        case 'CANCELED': return 'Canceled';
+        case 'NEW_AUTO_CREATED': return 'New (Auto Created)';
+        case 'CHECK_CLEARANCE': return 'Check Clearance';
+        default: { const s = String(name); return s.charAt(0) + s.slice(1).toLowerCase(); }
+    }
+}
+
+export const QuoteStatusOptions: INodePropertyOptions[] =
+    (Object.keys(QuoteStatusIdByName) as QuoteStatusName[])
+        .sort((a, b) => QuoteStatusIdByName[a] - QuoteStatusIdByName[b])
+        .map((name) => ({
+            name: `${pretty(name)} (${QuoteStatusIdByName[name]})`,
+            value: QuoteStatusIdByName[name],
+            description: name,
+        }));
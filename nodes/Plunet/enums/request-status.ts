@@ -0,0 +1,58 @@
+import type { INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * RequestStatusType enum used by DataRequest30 getStatus / setStatus
+ * @see https://apidoc.plunet.com/latest/BM/API/SOAP/Enum/RequestStatusType.html
+ */
+export type RequestStatusName =
+    | 'IN_PREPARATION'
+    | 'PENDING'
+    | 'CANCELED'
+    | 'CHANGED_INTO_QUOTE'
+    | 'CHANGED_INTO_ORDER'
+    | 'NEW_AUTO_CREATED'
+    | 'REJECTED';
+
+export const RequestStatusIdByName: Record<RequestStatusName, number> = {
+    IN_PREPARATION: 1,
+    PENDING: 2,
+    CANCELED: 3,
+    CHANGED_INTO_QUOTE: 4,
+    CHANGED_INTO_ORDER: 5,
+    NEW_AUTO_CREATED: 6,
+    REJECTED: 7,
+};
+
+const RequestStatusNameById: Record<number, RequestStatusName> = Object.fromEntries(
+    Object.entries(RequestStatusIdByName).map(([k, v]) => [v, k as RequestStatusName]),
+) as Record<number, RequestStatusName>;
+
+export function idToRequestStatusName(id?: number | null): RequestStatusName | undefined {
+    if (id == null) return undefined;
+    return RequestStatusNameById[id];
+}
+
+function pretty(name: RequestStatusName): string {
+    switch (name) {
+        case 'IN_PREPARATION': return 'In preparation';
+        case 'PENDING': return 'Pending';
+        case 'CANCELED': return 'Canceled';
+        case 'CHANGED_INTO_QUOTE': return 'Changed into quote';
+        case 'CHANGED_INTO_ORDER': return 'Changed into order';
+        case 'NEW_AUTO_CREATED': return 'New (auto created)';
+        case 'REJECTED': return 'Rejected';
+        default: {
+            const s = String(name);
+            return s.charAt(0) + s.slice(1).toLowerCase();
+        }
+    }
+}
+
+export const RequestStatusOptions: INodePropertyOptions[] =
+    (Object.keys(RequestStatusIdByName) as RequestStatusName[])
+        .sort((a, b) => RequestStatusIdByName[a] - RequestStatusIdByName[b])
+        .map((name) => ({
+            name: `${pretty(name)} (${RequestStatusIdByName[name]})`,
+            value: RequestStatusIdByName[name],
+            description: name,
+        }));
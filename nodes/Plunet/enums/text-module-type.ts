@@ -1,5 +1,15 @@
 import { INodePropertyOptions } from 'n8n-workflow';
 
+export enum TextModuleType {
+  TEXT_FIELD = 1,
+  LIST_BOX = 2,
+  DATE_FIELD = 3,
+  MEMO_FIELD = 4,
+  MEMO_HISTORY_FIELD = 5,
+  NUMBER_FIELD = 6,
+  HYPER_LINK = 7,
+}
+
 export const TextModuleTypeOptions: INodePropertyOptions[] = [
   { name: 'Text Field', value: 1 },
   { name: 'List Box', value: 2 },
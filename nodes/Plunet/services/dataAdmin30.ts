@@ -202,6 +202,8 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
     paramOrder: PARAM_ORDER,
     numericBooleans: NUMERIC_BOOLEAN_PARAMS,
     getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+    creds, // Pass credentials for debug mode and retry settings
+    timeoutMs, // Credential timeout or node override
     parseResult: (xml: string, op: string) => {
       const rt = RETURN_TYPE[op] as R | undefined;
       let payload: IDataObject;
@@ -0,0 +1,269 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import { extractStatusMessage, parseIntegerResult } from '../core/xml';
+import {
+    parseCreditNoteListResult,
+    parseCreditNoteResult,
+    parseCreditNoteItemListResult,
+} from '../core/parsers/credit-note';
+import { idToInvoiceStatusName } from '../enums/invoice-status';
+import { idToTaxTypeName } from '../enums/tax-type';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataCreditNote30';
+const ENDPOINT = 'DataCreditNote30';
+const RESOURCE_DISPLAY_NAME = 'Credit Note';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getCreditNotesOfCustomer: {
+        soapAction: 'getCreditNoteList',
+        endpoint: ENDPOINT,
+        uiName: 'Get Many Credit Notes',
+        subtitleName: 'get many: credit notes',
+        titleName: 'Get Credit Notes of a Customer',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'List the credit notes of a customer',
+        returnType: 'CreditNoteList',
+        paramOrder: ['customerID'],
+        active: true,
+    },
+    getCreditNote: {
+        soapAction: 'getCreditNoteObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Credit Note',
+        subtitleName: 'get: credit note',
+        titleName: 'Get a Credit Note',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve a credit note with its items',
+        returnType: 'CreditNote',
+        paramOrder: ['creditNoteID'],
+        active: true,
+    },
+    getCreditNoteItems: {
+        soapAction: 'getCreditNoteItemList',
+        endpoint: ENDPOINT,
+        uiName: 'Get Credit Note Items',
+        subtitleName: 'get items: credit note',
+        titleName: 'Get Credit Note Items',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the items of a credit note',
+        returnType: 'CreditNoteItemList',
+        paramOrder: ['creditNoteID'],
+        active: true,
+    },
+    insertCreditNote: {
+        soapAction: 'insert2',
+        endpoint: ENDPOINT,
+        uiName: 'Create Credit Note',
+        subtitleName: 'insert: credit note',
+        titleName: 'Create a Credit Note',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Create a credit note against an outgoing invoice',
+        returnType: 'Integer',
+        paramOrder: ['invoiceID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Integer'|'CreditNote'|'CreditNoteList'|'CreditNoteItemList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Customer ID',
+        name: 'customerID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the customer',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getCreditNoteList'],
+            },
+        },
+    },
+    {
+        displayName: 'Credit Note ID',
+        name: 'creditNoteID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the credit note',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getCreditNoteObject', 'getCreditNoteItemList'],
+            },
+        },
+    },
+    {
+        displayName: 'Invoice ID',
+        name: 'invoiceID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the outgoing invoice the credit note corrects (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+    },
+    {
+        displayName: 'Additional Fields',
+        name: 'additionalFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+        options: [
+            { displayName: 'Brief Description', name: 'briefDescription', type: 'string', default: '', description: 'Brief description of the credit note' },
+            { displayName: 'Credit Note Date', name: 'creditNoteDate', type: 'dateTime', default: '', description: 'Date of the credit note' },
+            { displayName: 'Subject', name: 'subject', type: 'string', default: '', description: 'Subject of the credit note' },
+        ],
+    },
+];
+
+/** Build <CreditNoteIN> from the invoice ID and the selected collection fields. */
+function buildCreditNoteINXml(invoiceID: number, additionalFields: IDataObject): string {
+    const fields: IDataObject = { ...additionalFields, invoiceID };
+    let creditNoteIN = `<CreditNoteIN>`;
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === '' || value === null || value === undefined) continue;
+        creditNoteIN += `\n<${key}>${escapeXml(String(value))}</${key}>`;
+    }
+    creditNoteIN += `\n</CreditNoteIN>`;
+    return creditNoteIN;
+}
+
+/** Add the status label to a normalized credit note. */
+function labelCreditNote(creditNote: IDataObject): IDataObject {
+    if (creditNote.status !== undefined) {
+        creditNote.statusLabel = idToInvoiceStatusName(creditNote.status as number);
+    }
+    return creditNote;
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'CreditNoteList': {
+                    const r = parseCreditNoteListResult(xml);
+                    const creditNotes = r.creditNotes.map((c) => labelCreditNote(c as IDataObject));
+                    payload = { creditNotes, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'CreditNote': {
+                    const r = parseCreditNoteResult(xml);
+                    const creditNote = labelCreditNote((r.creditNote || {}) as IDataObject);
+                    payload = { creditNote, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'CreditNoteItemList': {
+                    const r = parseCreditNoteItemListResult(xml);
+                    const items = r.items.map((item) => ({
+                        ...item,
+                        taxTypeLabel: idToTaxTypeName(item.taxType),
+                    }));
+                    payload = { items, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    payload = { creditNoteID: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insert2') {
+                const invoiceID = ctx.getNodeParameter('invoiceID', itemIndex, 0) as number;
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const creditNoteIN = buildCreditNoteINXml(invoiceID, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${creditNoteIN}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataCreditNote30Service: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Credit notes for outgoing invoices (DataCreditNote30)',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        // Get Credit Note also returns the items of the credit note
+        if (operation === 'getCreditNoteObject') {
+            const creditNoteID = ctx.getNodeParameter('creditNoteID', itemIndex) as number;
+            const itemsResult = await executeOperation(ctx, 'getCreditNoteItemList', { creditNoteID }, config, itemIndex) as IDataObject;
+            const creditNote = { ...(result.creditNote as IDataObject), items: itemsResult.items ?? [] };
+            return { ...result, creditNote };
+        }
+        return result;
+    },
+};
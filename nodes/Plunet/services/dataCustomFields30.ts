@@ -4,16 +4,23 @@ import {
   INodeProperties,
   INodePropertyOptions,
   ILoadOptionsFunctions,
+  NodeOperationError,
 } from 'n8n-workflow';
 import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
 import { ensureSession } from '../core/session';
 import { executeOperation, type ExecuteConfig } from '../core/executor';
 import { NUMERIC_BOOLEAN_PARAMS } from '../core/constants';
-import { extractStatusMessage, parseStringArrayResult, parseStringResult, parseVoidResult, parsePropertyResult } from '../core/xml';
+import {
+  extractStatusMessage, parseStringArrayResult, parseStringResult, parseVoidResult, parsePropertyResult,
+  getDataNode, asNum, asStr, toArray,
+} from '../core/xml';
 import { PropertyUsageAreaOptions } from '../enums/property-usage-area';
 import { TextModuleUsageAreaOptions } from '../enums/text-module-usage-area';
-import { getTextModuleTypeName } from '../enums/text-module-type';
+import { TextModuleType, getTextModuleTypeName } from '../enums/text-module-type';
+import { PropertyType, getPropertyTypeName } from '../enums/property-type';
 import { generateOperationOptionsFromRegistry } from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+import { fetchAvailableProperties, fetchAvailableTextModules } from './loadOptions';
 
 const RESOURCE = 'DataCustomFields30';
 const ENDPOINT = 'DataCustomFields30';
@@ -73,6 +80,19 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
     paramOrder: ['PropertyUsageArea', 'MainID', 'PropertyNameEnglish', 'PropertyIDs'],
     active: true,
   },
+  setPropertyByName: {
+    soapAction: 'setPropertyByName',
+    endpoint: ENDPOINT,
+    uiName: 'Set Property by Name',
+    subtitleName: 'set property by name: custom fields',
+    titleName: 'Set Property by Name',
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    description: 'Select single or multi select property values by their names instead of IDs',
+    returnType: 'Void',
+    paramOrder: ['PropertyUsageArea', 'MainID', 'PropertyNameEnglish', 'PropertyValueNames', 'languageCode'],
+    active: true,
+  },
   getTextModule: {
     soapAction: 'getTextModule',
     endpoint: ENDPOINT,
@@ -99,6 +119,32 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
     paramOrder: ['TextModuleUsageArea', 'ID', 'Flag', 'TextModuleContent', 'languageCode'],
     active: true,
   },
+  setTextModuleByName: {
+    soapAction: 'setTextModuleByName',
+    endpoint: ENDPOINT,
+    uiName: 'Set Text Module by Name',
+    subtitleName: 'set text module by name: custom fields',
+    titleName: 'Set Text Module by Name',
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    description: 'Set a text, number, date or list box text module; list entries are matched by name',
+    returnType: 'Void',
+    paramOrder: ['TextModuleUsageArea', 'ID', 'Flag', 'TextModuleValue', 'TextModuleDateValue', 'languageCode'],
+    active: true,
+  },
+  getAllCustomFields: {
+    soapAction: 'getAllCustomFields',
+    endpoint: ENDPOINT,
+    uiName: 'Get All Custom Fields',
+    subtitleName: 'get all: custom fields',
+    titleName: 'Get All Custom Fields',
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    description: 'Read every property and text module of an entity as one name to value object',
+    returnType: 'CustomFields',
+    paramOrder: ['PropertyUsageArea', 'TextModuleUsageArea', 'MainID', 'languageCode'],
+    active: true,
+  },
 };
 
 /** ─ Legacy compatibility mappings ─ */
@@ -108,7 +154,7 @@ const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
     .map(op => [op.soapAction, op.paramOrder])
 );
 
-type R = 'StringArray' | 'String' | 'Void' | 'Property';
+type R = 'StringArray' | 'String' | 'Void' | 'Property' | 'CustomFields';
 const RETURN_TYPE: Record<string, R> = Object.fromEntries(
   Object.values(OPERATION_REGISTRY)
     .filter(op => op.active)
@@ -133,7 +179,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getPropertyList', 'getProperty', 'setPropertyValueList'] 
+        operation: ['getPropertyList', 'getProperty', 'setPropertyValueList', 'setPropertyByName', 'getAllCustomFields'] 
       } 
     },
   },
@@ -148,7 +194,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getTextModuleList', 'getTextModule', 'setTextModule'] 
+        operation: ['getTextModuleList', 'getTextModule', 'setTextModule', 'setTextModuleByName', 'getAllCustomFields'] 
       } 
     },
   },
@@ -163,7 +209,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getProperty', 'setPropertyValueList'] 
+        operation: ['getProperty', 'setPropertyValueList', 'setPropertyByName', 'getAllCustomFields'] 
       } 
     },
   },
@@ -178,7 +224,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getTextModule', 'setTextModule'] 
+        operation: ['getTextModule', 'setTextModule', 'setTextModuleByName'] 
       } 
     },
   },
@@ -197,7 +243,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getProperty', 'setPropertyValueList'] 
+        operation: ['getProperty', 'setPropertyValueList', 'setPropertyByName'] 
       } 
     },
   },
@@ -216,7 +262,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getTextModule', 'setTextModule'] 
+        operation: ['getTextModule', 'setTextModule', 'setTextModuleByName'] 
       } 
     },
   },
@@ -230,7 +276,7 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getTextModule', 'setTextModule'] 
+        operation: ['getTextModule', 'setTextModule', 'setTextModuleByName'] 
       } 
     },
   },
@@ -335,7 +381,49 @@ const extraProperties: INodeProperties[] = [
     displayOptions: { 
       show: { 
         resource: [RESOURCE], 
-        operation: ['getPropertyValueText'] 
+        operation: ['getPropertyValueText', 'setPropertyByName', 'getAllCustomFields'] 
+      } 
+    },
+  },
+  // Value names for setPropertyByName
+  {
+    displayName: 'Values',
+    name: 'PropertyValueNames',
+    type: 'string',
+    default: '',
+    placeholder: 'Legal, Medical',
+    description: 'Comma-separated value names as shown in Plunet for the language code; numeric value IDs are accepted too. Single select properties take one value, an empty list clears the property.',
+    displayOptions: { 
+      show: { 
+        resource: [RESOURCE], 
+        operation: ['setPropertyByName'] 
+      } 
+    },
+  },
+  // Value for setTextModuleByName
+  {
+    displayName: 'Value',
+    name: 'TextModuleValue',
+    type: 'string',
+    default: '',
+    description: 'Text, number or link for text fields; comma-separated entry names for list boxes. Not used for date fields.',
+    displayOptions: { 
+      show: { 
+        resource: [RESOURCE], 
+        operation: ['setTextModuleByName'] 
+      } 
+    },
+  },
+  {
+    displayName: 'Date Value',
+    name: 'TextModuleDateValue',
+    type: 'dateTime',
+    default: '',
+    description: 'The date for date fields',
+    displayOptions: { 
+      show: { 
+        resource: [RESOURCE], 
+        operation: ['setTextModuleByName'] 
       } 
     },
   },
@@ -380,6 +468,8 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
     paramOrder: PARAM_ORDER,
     numericBooleans: NUMERIC_BOOLEAN_PARAMS,
     getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+    creds, // Pass credentials for debug mode and retry settings
+    timeoutMs, // Credential timeout or node override
     parseResult: (xml: string, op: string) => {
       const rt = RETURN_TYPE[op] as R | undefined;
       let payload: IDataObject;
@@ -444,6 +534,14 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
          </PropertyValueList>
          <MainID>${toSoapParamValue(params.MainID, 'MainID')}</MainID>`;
       }
+      if (op === 'setTextModule' && params.TextmoduleIN) {
+        return `<UUID>${sessionId}</UUID>
+         <TextmoduleIN>
+            ${params.TextmoduleIN}
+         </TextmoduleIN>
+         <ID>${toSoapParamValue(params.ID, 'ID')}</ID>
+         <languageCode>${escapeXml(toSoapParamValue(params.languageCode, 'languageCode'))}</languageCode>`;
+      }
       return null; // Use default body XML generation
     },
   };
@@ -457,6 +555,8 @@ function createAdminExecuteConfig(creds: Creds, url: string, baseUrl: string, ti
     paramOrder: { getAvailableProperties: ['usageArea', 'mainID'] },
     numericBooleans: NUMERIC_BOOLEAN_PARAMS,
     getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+    creds, // Pass credentials for debug mode and retry settings
+    timeoutMs, // Credential timeout or node override
     parseResult: (xml: string, op: string) => {
       // Parse PropertyListResult for getAvailableProperties
       const base = extractResultBase(xml);
@@ -509,50 +609,260 @@ function extractResultBase(xml: string): { statusMessage?: string; statusCode?:
   };
 }
 
-// Parse TextmoduleResult to extract text module data with enrichment
+// Parse TextmoduleResult to extract text module data with enrichment.
+// Read through the shared XML parser, so entities (e.g. "R&amp;D") are decoded and multi-line values are kept.
 function parseTextModuleResult(xml: string): IDataObject {
   const base = extractResultBase(xml);
-  
-  // Look for TextmoduleResult scope
-  const textmoduleResultScope = findFirstTagBlock(xml, 'TextmoduleResult');
-  if (!textmoduleResultScope) {
+  const data = getDataNode(xml) as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object' || !('flag' in data || 'textModuleType' in data)) {
     return { statusMessage: base.statusMessage, statusCode: base.statusCode };
   }
-  
-  // Extract data block
-  const dataMatch = textmoduleResultScope.match(/<data>[\s\S]*?<\/data>/);
-  if (!dataMatch) {
-    return { statusMessage: base.statusMessage, statusCode: base.statusCode };
-  }
-  
-  const dataBlock = dataMatch[0];
-  
-  // Extract individual fields
-  const availableValuesMatch = dataBlock.match(/<availableValues>(.*?)<\/availableValues>/);
-  const flagMatch = dataBlock.match(/<flag>(.*?)<\/flag>/);
-  const flagMainTextModuleMatch = dataBlock.match(/<flag_MainTextModule>(.*?)<\/flag_MainTextModule>/);
-  const selectedValuesMatch = dataBlock.match(/<selectedValues>(.*?)<\/selectedValues>/);
-  const stringValueMatch = dataBlock.match(/<stringValue>(.*?)<\/stringValue>/);
-  const textModuleTypeMatch = dataBlock.match(/<textModuleType>(.*?)<\/textModuleType>/);
-  
-  const textModuleType = textModuleTypeMatch && textModuleTypeMatch[1] ? parseInt(textModuleTypeMatch[1], 10) : undefined;
-  
+
+  const textModuleType = asNum(data.textModuleType);
+  const list = (key: string): string[] =>
+    toArray(data[key]).map((v) => asStr(v)).filter((v): v is string => v !== undefined);
+  const availableValuesList = list('availableValues');
+  const selectedValuesList = list('selectedValues');
+
   return {
     data: {
-      flag: flagMatch ? flagMatch[1] : undefined,
+      flag: asStr(data.flag),
       textModuleLabel: undefined, // Will be set in execute function
-      flag_MainTextModule: flagMainTextModuleMatch ? flagMainTextModuleMatch[1] : undefined,
+      flag_MainTextModule: asStr(data.flag_MainTextModule),
       textModuleType: textModuleType,
       textModuleTypeName: textModuleType ? getTextModuleTypeName(textModuleType) : undefined,
-      availableValues: availableValuesMatch ? availableValuesMatch[1] : undefined,
-      selectedValues: selectedValuesMatch ? selectedValuesMatch[1] : undefined,
-      stringValue: stringValueMatch ? stringValueMatch[1] : undefined,
+      availableValues: availableValuesList[0],
+      selectedValues: selectedValuesList[0],
+      availableValuesList,
+      selectedValuesList,
+      stringValue: asStr(data.stringValue),
+      dateValue: asStr(data.dateValue),
     },
     statusMessage: base.statusMessage,
     statusCode: base.statusCode
   };
 }
 
+/** Comma-separated names, trimmed, blanks dropped */
+function splitNames(value: unknown): string[] {
+  return String(value ?? '').split(',').map((v) => v.trim()).filter((v) => v);
+}
+
+/**
+ * Set Property by Name: value names are matched (case-insensitively) against the texts of the
+ * property's available value IDs from getProperty / getPropertyValueText, then written with setPropertyValueList.
+ */
+async function setPropertyByName(
+  ctx: IExecuteFunctions,
+  config: ExecuteConfig,
+  itemParams: IDataObject,
+  itemIndex: number,
+): Promise<IDataObject> {
+  const PropertyNameEnglish = String(itemParams.PropertyNameEnglish || '').trim();
+  if (!PropertyNameEnglish) throw new NodeOperationError(ctx.getNode(), 'Property Name is required', { itemIndex });
+  const lookup: IDataObject = { PropertyUsageArea: itemParams.PropertyUsageArea, MainID: itemParams.MainID, PropertyNameEnglish };
+
+  const property = await executeOperation(ctx, 'getProperty', lookup, config, itemIndex) as IDataObject;
+  const available = (property.availableProperties as number[] | undefined) ?? [];
+  const idByName = new Map<string, number>();
+  for (const PropertyValueID of available) {
+    const text = await executeOperation(ctx, 'getPropertyValueText', {
+      PropertyNameEnglish,
+      PropertyValueID,
+      languageCode: itemParams.languageCode || 'EN',
+    }, config, itemIndex) as IDataObject;
+    if (text.PropertyValue) idByName.set(String(text.PropertyValue).trim().toLowerCase(), PropertyValueID);
+  }
+
+  const resolvedValues: { name: string; id: number }[] = [];
+  const unresolvedValues: string[] = [];
+  for (const name of splitNames(itemParams.PropertyValueNames)) {
+    const id = idByName.get(name.toLowerCase()) ?? (available.includes(Number(name)) ? Number(name) : undefined);
+    if (id === undefined) unresolvedValues.push(name);
+    else if (!resolvedValues.some((v) => v.id === id)) resolvedValues.push({ name, id });
+  }
+  if (!resolvedValues.length && unresolvedValues.length) {
+    throw new NodeOperationError(ctx.getNode(), `No value of "${PropertyNameEnglish}" matches: ${unresolvedValues.join(', ')}`, { itemIndex });
+  }
+  if (property.propertyType === PropertyType.SINGLE_SELECT && resolvedValues.length > 1) {
+    throw new NodeOperationError(ctx.getNode(), `"${PropertyNameEnglish}" is a single select property but ${resolvedValues.length} values were given`, { itemIndex });
+  }
+
+  const selectedPropertyValueIDs = resolvedValues.map((v) => v.id);
+  const write = await executeOperation(ctx, 'setPropertyValueList', {
+    ...lookup,
+    PropertyIDs: selectedPropertyValueIDs.join(','),
+  }, config, itemIndex) as IDataObject;
+
+  return {
+    success: true,
+    resource: RESOURCE,
+    operation: 'setPropertyByName',
+    PropertyNameEnglish,
+    propertyType: property.propertyType,
+    propertyTypeEnglish: property.propertyType !== undefined ? getPropertyTypeName(property.propertyType as number) : undefined,
+    selectedPropertyValueIDs,
+    resolvedValues,
+    unresolvedValues,
+    statusMessage: write.statusMessage,
+    statusCode: write.statusCode,
+  };
+}
+
+/**
+ * Set Text Module by Name: the text module type from getTextModule decides how the value is sent.
+ * Free text, memo, number and link fields take `stringValue`, date fields `dateValue`;
+ * list box entries are matched by name against the available values.
+ */
+async function setTextModuleByName(
+  ctx: IExecuteFunctions,
+  config: ExecuteConfig,
+  itemParams: IDataObject,
+  itemIndex: number,
+): Promise<IDataObject> {
+  const Flag = String(itemParams.Flag || '').trim();
+  if (!Flag) throw new NodeOperationError(ctx.getNode(), 'Text Module Flag is required', { itemIndex });
+  const lookup: IDataObject = {
+    Flag,
+    TextModuleUsageArea: itemParams.TextModuleUsageArea,
+    ID: itemParams.ID,
+    languageCode: itemParams.languageCode || 'EN',
+  };
+
+  const current = await executeOperation(ctx, 'getTextModule', lookup, config, itemIndex) as IDataObject;
+  const data = (current.data ?? {}) as IDataObject;
+  const textModuleType = Number(data.textModuleType);
+  const value = String(itemParams.TextModuleValue ?? '').trim();
+  const unresolvedValues: string[] = [];
+  let written: IDataObject;
+  let valueXml: string;
+
+  switch (textModuleType) {
+    case TextModuleType.DATE_FIELD: {
+      const dateValue = String(itemParams.TextModuleDateValue || '').trim();
+      if (!dateValue) throw new NodeOperationError(ctx.getNode(), `"${Flag}" is a date field; set Date Value`, { itemIndex });
+      valueXml = `<dateValue>${escapeXml(dateValue)}</dateValue>`;
+      written = { dateValue };
+      break;
+    }
+    case TextModuleType.LIST_BOX: {
+      const available = (data.availableValuesList as string[] | undefined) ?? [];
+      const selectedValues: string[] = [];
+      for (const name of splitNames(value)) {
+        const match = available.find((a) => a.trim().toLowerCase() === name.toLowerCase());
+        if (match === undefined) unresolvedValues.push(name);
+        else if (!selectedValues.includes(match)) selectedValues.push(match);
+      }
+      if (!selectedValues.length && unresolvedValues.length) {
+        throw new NodeOperationError(ctx.getNode(), `No entry of "${Flag}" matches: ${unresolvedValues.join(', ')}`, { itemIndex });
+      }
+      valueXml = selectedValues.map((v) => `<selectedValues>${escapeXml(v)}</selectedValues>`).join('');
+      written = { selectedValues };
+      break;
+    }
+    case TextModuleType.NUMBER_FIELD: {
+      if (value && !Number.isFinite(Number(value))) {
+        throw new NodeOperationError(ctx.getNode(), `"${Flag}" is a number field; "${value}" is not a number`, { itemIndex });
+      }
+      valueXml = `<stringValue>${escapeXml(value)}</stringValue>`;
+      written = { stringValue: value };
+      break;
+    }
+    default: {
+      valueXml = `<stringValue>${escapeXml(value)}</stringValue>`;
+      written = { stringValue: value };
+    }
+  }
+
+  const TextmoduleIN = `<textModuleUsageArea>${toSoapParamValue(lookup.TextModuleUsageArea, 'TextModuleUsageArea')}</textModuleUsageArea>
+            <flag>${escapeXml(Flag)}</flag>
+            ${valueXml}`;
+  const write = await executeOperation(ctx, 'setTextModule', { ...lookup, TextmoduleIN }, config, itemIndex) as IDataObject;
+
+  return {
+    success: true,
+    resource: RESOURCE,
+    operation: 'setTextModuleByName',
+    Flag,
+    textModuleType: Number.isNaN(textModuleType) ? undefined : textModuleType,
+    textModuleTypeName: Number.isNaN(textModuleType) ? undefined : getTextModuleTypeName(textModuleType),
+    ...written,
+    unresolvedValues,
+    statusMessage: write.statusMessage,
+    statusCode: write.statusCode,
+  };
+}
+
+/** Value of a text module as read back: list boxes give their selected entries, numbers a number, dates the date */
+function textModuleValue(data: IDataObject): string | number | string[] | null {
+  switch (Number(data.textModuleType)) {
+    case TextModuleType.LIST_BOX:
+      return (data.selectedValuesList as string[] | undefined) ?? [];
+    case TextModuleType.DATE_FIELD:
+      return (data.dateValue as string | undefined) ?? null;
+    case TextModuleType.NUMBER_FIELD: {
+      const value = String(data.stringValue ?? '').trim();
+      return value && Number.isFinite(Number(value)) ? Number(value) : value || null;
+    }
+    default:
+      return (data.stringValue as string | undefined) ?? null;
+  }
+}
+
+/**
+ * Get All Custom Fields: the properties and text modules the load options offer for the entity,
+ * each read and resolved to text. Properties are keyed by English name, text modules by label
+ * (the flag when the label is empty or already taken).
+ */
+async function getAllCustomFields(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  timeoutMs: number,
+  config: ExecuteConfig,
+  itemParams: IDataObject,
+  itemIndex: number,
+): Promise<IDataObject> {
+  const MainID = Number(itemParams.MainID);
+  if (!MainID) throw new NodeOperationError(ctx.getNode(), 'Main ID is required', { itemIndex });
+  const languageCode = String(itemParams.languageCode || 'EN');
+  const customFields: IDataObject = {};
+
+  const PropertyUsageArea = Number(itemParams.PropertyUsageArea);
+  if (PropertyUsageArea) {
+    for (const PropertyNameEnglish of await fetchAvailableProperties(ctx, creds, timeoutMs, PropertyUsageArea, MainID, itemIndex)) {
+      const property = await executeOperation(ctx, 'getProperty', { PropertyUsageArea, MainID, PropertyNameEnglish }, config, itemIndex) as IDataObject;
+      const ids = property.propertyType === PropertyType.MULTI_SELECT
+        ? (property.selected_properties as number[] | undefined) ?? []
+        : property.selectedPropertyValueID ? [property.selectedPropertyValueID as number] : [];
+      const texts: string[] = [];
+      for (const PropertyValueID of ids) {
+        const text = await executeOperation(ctx, 'getPropertyValueText', { PropertyNameEnglish, PropertyValueID, languageCode }, config, itemIndex) as IDataObject;
+        texts.push(text.PropertyValue !== undefined ? String(text.PropertyValue) : String(PropertyValueID));
+      }
+      customFields[PropertyNameEnglish] = property.propertyType === PropertyType.MULTI_SELECT ? texts : texts[0] ?? null;
+    }
+  }
+
+  const TextModuleUsageArea = Number(itemParams.TextModuleUsageArea);
+  if (TextModuleUsageArea) {
+    const available = await fetchAvailableTextModules(ctx, creds, timeoutMs, TextModuleUsageArea, MainID, languageCode, itemIndex);
+    for (const option of available) {
+      const [Flag = '', label = ''] = option.value.split('|');
+      const textModule = await executeOperation(ctx, 'getTextModule', { Flag, TextModuleUsageArea, ID: MainID, languageCode }, config, itemIndex) as IDataObject;
+      const key = label.trim() && !(label.trim() in customFields) ? label.trim() : Flag;
+      customFields[key] = textModuleValue((textModule.data ?? {}) as IDataObject);
+    }
+  }
+
+  return {
+    success: true,
+    resource: RESOURCE,
+    operation: 'getAllCustomFields',
+    MainID,
+    customFields,
+  };
+}
+
 export const DataCustomFields30Service: Service = {
   resource: RESOURCE,
   resourceDisplayName: RESOURCE_DISPLAY_NAME,
@@ -576,6 +886,10 @@ export const DataCustomFields30Service: Service = {
       
       itemParams[paramName] = paramValue;
     }
+
+    if (operation === 'setPropertyByName') return setPropertyByName(ctx, config, itemParams, itemIndex);
+    if (operation === 'setTextModuleByName') return setTextModuleByName(ctx, config, itemParams, itemIndex);
+    if (operation === 'getAllCustomFields') return getAllCustomFields(ctx, creds, timeoutMs, config, itemParams, itemIndex);
     
     // Special handling for setTextModule - create custom SOAP envelope
     if (operation === 'setTextModule') {
@@ -633,7 +947,7 @@ export const DataCustomFields30Service: Service = {
       
       // Make the SOAP request directly
       const { sendSoap } = await import('../core/soap');
-      const responseBody = await sendSoap(ctx, url, 'http://API.Integration/setTextmodule', envelope);
+      const responseBody = await sendSoap(ctx, url, 'http://API.Integration/setTextmodule', envelope, { timeoutMs });
       
       // Parse the response
       const { XMLParser } = await import('fast-xml-parser');
@@ -23,6 +23,8 @@ import {
     createTypedProperty,
     handleVoidResult,
     buildSearchFilterXml,
+    createSearchExpansionProperties,
+    expandSearchResult,
 } from '../core/service-utils';
 import { escapeXml } from '../core/soap';
 import {
@@ -327,6 +329,9 @@ const extraProperties: INodeProperties[] = [
                 );
             }),
     ),
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
 ];
 
 // Field definitions are now imported from field-definitions.ts
@@ -478,7 +483,7 @@ export const DataCustomer30CoreService: Service = {
     extraProperties,
     async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
         const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
-        return await executeStandardService(
+        const result = await executeStandardService(
             operation,
             ctx,
             creds,
@@ -489,5 +494,12 @@ export const DataCustomer30CoreService: Service = {
             PARAM_ORDER,
             config,
         );
+
+        if (operation === 'search') {
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                executeOperation(ctx, 'getCustomerObject', { customerID: id }, config, itemIndex),
+            );
+        }
+        return result;
     },
 };
\ No newline at end of file
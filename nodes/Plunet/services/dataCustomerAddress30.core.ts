@@ -239,15 +239,13 @@ import {
     // Helper function to safely call individual field operations
     const safeCallField = async (operation: string): Promise<string | number | undefined> => {
       try {
-        const fieldConfig = {
-          url: config.url,
-          soapActionFor: (op: string) => `http://API.Integration/${op}`,
+        // Inherit creds, session handling and timeout from the service config
+        const fieldConfig: ExecuteConfig = {
+          ...config,
           paramOrder: { [operation]: ['addressID'] },
-          numericBooleans: new Set<string>(),
-          getSessionId: async () => sessionId,
-          buildCustomBodyXml: (op: string, params: IDataObject) => {
+          buildCustomBodyXml: (op: string, params: IDataObject, sid: string) => {
             if (op === operation) {
-              return `<UUID>${escapeXml(sessionId)}</UUID>
+              return `<UUID>${escapeXml(sid)}</UUID>
 <AddressID>${escapeXml(String(addressID))}</AddressID>`;
             }
             return null;
@@ -299,6 +297,8 @@ import {
       paramOrder: PARAM_ORDER,
       numericBooleans: NUMERIC_BOOLEAN_PARAMS,
       getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+      creds, // Pass credentials for debug mode and retry settings
+      timeoutMs, // Credential timeout or node override
       buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
         if (op === 'insert2') {
           const addressType = ctx.getNodeParameter('addressType', itemIndex, 1) as number;
@@ -3,7 +3,8 @@ import {
 } from 'n8n-workflow';
 import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
 import { createStandardExecuteConfig, executeStandardService, generateOperationOptionsFromRegistry, createTypedProperty, createBooleanProperty, createStringProperty } from '../core/service-utils';
-import { labelize } from '../core/utils';
+import { labelize, toSoapParamValue } from '../core/utils';
+import { escapeXml } from '../core/soap';
 import { parseIntegerArrayResult, parseIntegerResult, parseVoidResult, extractStatusMessage } from '../core/xml';
 import { parseCustomerContactListResult, parseCustomerContactResult } from '../core/parsers/customer-contact';
 import { CUSTOMER_CONTACT_IN_FIELDS, MANDATORY_FIELDS, FIELD_TYPES } from '../core/field-definitions';
@@ -83,6 +84,19 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
         paramOrder: ['customerContactID', 'status', ...CUSTOMER_CONTACT_IN_FIELDS.filter(f => f !== 'customerContactID' && f !== 'status'), 'enableNullOrEmptyValues'],
         active: true,
     },
+    delete: {
+        soapAction: 'delete',
+        endpoint: ENDPOINT,
+        uiName: 'Delete Customer Contact',
+        subtitleName: 'delete: customer contact',
+        titleName: 'Delete a Customer Contact',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Delete a customer contact by ID',
+        returnType: 'Void',
+        paramOrder: ['contactID'],
+        active: true,
+    },
 };
 
 const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
@@ -103,7 +117,8 @@ const extraProperties: INodeProperties[] = [
             op === 'getAllContactObjects' ? 'contactGetAllContactObjects' :
             op === 'seekByExternalID' ? 'contactSeekByExternalID' :
             op === 'insert2' ? 'contactInsert2' :
-            op === 'update' ? 'contactUpdate' : op
+            op === 'update' ? 'contactUpdate' :
+            op === 'delete' ? 'contactDelete' : op
         ] || [];
         // Ensure we only render each mandatory field once per operation
         const uniqueMandatory = Array.from(new Set(mandatoryFields));
@@ -184,7 +199,8 @@ const extraProperties: INodeProperties[] = [
             op === 'getAllContactObjects' ? 'contactGetAllContactObjects' :
             op === 'seekByExternalID' ? 'contactSeekByExternalID' :
             op === 'insert2' ? 'contactInsert2' :
-            op === 'update' ? 'contactUpdate' : op
+            op === 'update' ? 'contactUpdate' :
+            op === 'delete' ? 'contactDelete' : op
         ] || [];
         return params
             .filter(p => !(CUSTOMER_CONTACT_IN_FIELDS as readonly string[]).includes(p) && !mandatoryFields.includes(p))
@@ -196,6 +212,35 @@ const extraProperties: INodeProperties[] = [
     }),
 ];
 
+// Build <CustomerContactIN>…</CustomerContactIN> from the mandatory parameters and the Additional Fields collection
+function buildCustomerContactINXml(
+    ctx: IExecuteFunctions,
+    itemIndex: number,
+    mandatoryFields: readonly string[],
+    includeEmpty: boolean,
+): string {
+    const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+    const lines: string[] = ['<CustomerContactIN>'];
+
+    for (const name of CUSTOMER_CONTACT_IN_FIELDS) {
+        let raw: unknown;
+        if (mandatoryFields.includes(name)) {
+            raw = ctx.getNodeParameter(name, itemIndex, '');
+        } else if (additionalFields[name] !== undefined) {
+            raw = additionalFields[name];
+        } else {
+            continue;
+        }
+        const val = toSoapParamValue(raw, name);
+        if (includeEmpty || val !== '') {
+            lines.push(`  <${name}>${escapeXml(val)}</${name}>`);
+        }
+    }
+
+    lines.push('</CustomerContactIN>');
+    return lines.join('\n      ');
+}
+
 function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number) {
     return createStandardExecuteConfig(
         creds,
@@ -230,7 +275,18 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                     return { statusMessage: extractStatusMessage(xml), rawResponse: xml } as IDataObject;
             }
         },
-        (op: string) => null,
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insert2') {
+                const contactIn = buildCustomerContactINXml(ctx, itemIndex, MANDATORY_FIELDS.contactInsert2 || [], false);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${contactIn}`;
+            }
+            if (op === 'update') {
+                const en = itemParams.enableNullOrEmptyValues as boolean || false;
+                const contactIn = buildCustomerContactINXml(ctx, itemIndex, MANDATORY_FIELDS.contactUpdate || [], en);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${contactIn}\n<enableNullOrEmptyValues>${en ? '1' : '0'}</enableNullOrEmptyValues>`;
+            }
+            return null;
+        },
         RESOURCE, // Pass resource name for error context
     );
 }
@@ -0,0 +1,302 @@
+import {
+    IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseStringResult, parseIntegerResult, parseVoidResult,
+} from '../core/xml';
+import { ContactPersonStatusDef, ContactPersonStatusOptions } from '../enums/contact-person-status';
+import { idToName } from '../enums/types';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+} from '../core/service-utils';
+
+const RESOURCE = 'DataCustomerContact30Misc';
+const ENDPOINT = 'DataCustomerContact30';
+const RESOURCE_DISPLAY_NAME = 'Customer Contact Fields';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getStatus: {
+        soapAction: 'getStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Get Status',
+        subtitleName: 'get status: customer contact fields',
+        titleName: 'Get Contact Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the status of the contact',
+        returnType: 'Integer',
+        paramOrder: ['contactID'],
+        active: true,
+    },
+    setStatus: {
+        soapAction: 'setStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Set Status',
+        subtitleName: 'set status: customer contact fields',
+        titleName: 'Set Contact Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the status of the contact',
+        returnType: 'Void',
+        paramOrder: ['status', 'contactID'],
+        active: true,
+    },
+    getSupervisor1: {
+        soapAction: 'getSupervisor1',
+        endpoint: ENDPOINT,
+        uiName: 'Get Supervisor 1',
+        subtitleName: 'get supervisor 1: customer contact fields',
+        titleName: 'Get Supervisor 1',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the first supervisor of the contact',
+        returnType: 'String',
+        paramOrder: ['contactID'],
+        active: true,
+    },
+    setSupervisor1: {
+        soapAction: 'setSupervisor1',
+        endpoint: ENDPOINT,
+        uiName: 'Set Supervisor 1',
+        subtitleName: 'set supervisor 1: customer contact fields',
+        titleName: 'Set Supervisor 1',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the first supervisor of the contact',
+        returnType: 'Void',
+        paramOrder: ['supervisor1', 'contactID'],
+        active: true,
+    },
+    getSupervisor2: {
+        soapAction: 'getSupervisor2',
+        endpoint: ENDPOINT,
+        uiName: 'Get Supervisor 2',
+        subtitleName: 'get supervisor 2: customer contact fields',
+        titleName: 'Get Supervisor 2',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the second supervisor of the contact',
+        returnType: 'String',
+        paramOrder: ['contactID'],
+        active: true,
+    },
+    setSupervisor2: {
+        soapAction: 'setSupervisor2',
+        endpoint: ENDPOINT,
+        uiName: 'Set Supervisor 2',
+        subtitleName: 'set supervisor 2: customer contact fields',
+        titleName: 'Set Supervisor 2',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the second supervisor of the contact',
+        returnType: 'Void',
+        paramOrder: ['supervisor2', 'contactID'],
+        active: true,
+    },
+    getCostCenter: {
+        soapAction: 'getCostCenter',
+        endpoint: ENDPOINT,
+        uiName: 'Get Cost Center',
+        subtitleName: 'get cost center: customer contact fields',
+        titleName: 'Get Cost Center',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the cost center of the contact',
+        returnType: 'String',
+        paramOrder: ['contactID'],
+        active: true,
+    },
+    setCostCenter: {
+        soapAction: 'setCostCenter',
+        endpoint: ENDPOINT,
+        uiName: 'Set Cost Center',
+        subtitleName: 'set cost center: customer contact fields',
+        titleName: 'Set Cost Center',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the cost center of the contact',
+        returnType: 'Void',
+        paramOrder: ['costCenter', 'contactID'],
+        active: true,
+    },
+    getExternalID: {
+        soapAction: 'getExternalID',
+        endpoint: ENDPOINT,
+        uiName: 'Get External ID',
+        subtitleName: 'get external id: customer contact fields',
+        titleName: 'Get External ID',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the external ID of the contact',
+        returnType: 'String',
+        paramOrder: ['contactID'],
+        active: true,
+    },
+    setExternalID: {
+        soapAction: 'setExternalID',
+        endpoint: ENDPOINT,
+        uiName: 'Set External ID',
+        subtitleName: 'set external id: customer contact fields',
+        titleName: 'Set External ID',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the external ID of the contact',
+        returnType: 'Void',
+        paramOrder: ['externalID', 'contactID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'String'|'Integer';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+const FIELD_LABELS: Record<string, { displayName: string; description: string }> = {
+    supervisor1: { displayName: 'Supervisor 1', description: 'New first supervisor of the contact' },
+    supervisor2: { displayName: 'Supervisor 2', description: 'New second supervisor of the contact' },
+    costCenter: { displayName: 'Cost Center', description: 'New cost center of the contact' },
+    externalID: { displayName: 'External ID', description: 'New external ID of the contact' },
+};
+
+const extraProperties: INodeProperties[] =
+    Object.entries(PARAM_ORDER).flatMap(([op, params]) =>
+        params.map<INodeProperties>((p) => {
+            if (p === 'contactID') {
+                return {
+                    displayName: 'Contact ID',
+                    name: p,
+                    type: 'number',
+                    default: 0,
+                    required: true,
+                    description: 'The ID of the customer contact',
+                    displayOptions: {
+                        show: {
+                            resource: [RESOURCE],
+                            operation: [op],
+                        },
+                    },
+                };
+            }
+            if (p === 'status') {
+                return {
+                    displayName: 'Status',
+                    name: p,
+                    type: 'options',
+                    options: ContactPersonStatusOptions,
+                    default: 1,
+                    required: true,
+                    description: 'New status of the contact (ContactPersonStatus enum)',
+                    displayOptions: {
+                        show: {
+                            resource: [RESOURCE],
+                            operation: [op],
+                        },
+                    },
+                };
+            }
+            const label = FIELD_LABELS[p] ?? { displayName: p, description: `${p} parameter for ${op}` };
+            return {
+                displayName: label.displayName,
+                name: p,
+                type: 'string',
+                default: '',
+                description: label.description,
+                displayOptions: {
+                    show: {
+                        resource: [RESOURCE],
+                        operation: [op],
+                    },
+                },
+            };
+        }),
+    );
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'String': {
+                    const r = parseStringResult(xml);
+                    payload = { data: r.data ?? '', statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    if (op === 'getStatus') {
+                        const statusId = r.value ?? null;
+                        payload = {
+                            statusId,
+                            statusName: idToName(ContactPersonStatusDef, statusId),
+                            statusMessage: r.statusMessage,
+                            statusCode: r.statusCode,
+                        };
+                    } else {
+                        payload = { value: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    }
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        undefined, // Setters take the value first, then the contact ID, as in PARAM_ORDER
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataCustomerContact30MiscService: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Field operations for DataCustomerContact30',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        return await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+    },
+};
@@ -7,18 +7,23 @@ import {
   IBinaryData,
 } from 'n8n-workflow';
 import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
-import { ensureSession } from '../core/session';
-import { executeOperation, type ExecuteConfig } from '../core/executor';
+import { ensureSession, clearSessionByUuid } from '../core/session';
+import { executeOperation, retryOptionsFor, type ExecuteConfig } from '../core/executor';
+import { buildEnvelope, sendSoapStream, parseXml, extractResultBase } from '../core/soap';
+import { throwForSoapFaultOrStatus, isSessionExpiredError } from '../core/errors';
+import { extractFileContent, encodeBase64, base64ByteLength, base64EncodedLength } from '../core/file-stream';
+import {
+  createZip, bufferZipSource, fileZipSource, isZip, readZipEntries, openZipEntry, type ZipEntry, type ZipSource,
+} from '../core/zip';
+import { Readable } from 'stream';
 import { NUMERIC_BOOLEAN_PARAMS } from '../core/constants';
 import { extractStatusMessage, parseStringArrayResult, parseFileResult } from '../core/xml';
 import { FolderTypeOptions, getMainIdFieldName } from '../enums/folder-types';
 import { generateOperationOptionsFromRegistry } from '../core/service-utils';
 
-// Helper function for base64 to Uint8Array conversion
-function base64ToUint8Array(base64: string): Uint8Array {
-  // @ts-ignore - Buffer is available globally in Node.js
-  const buffer = Buffer.from(base64, 'base64');
-  return new Uint8Array(buffer);
+// Helper function for base64 to Buffer conversion
+function base64ToBuffer(base64: string): Buffer {
+  return Buffer.from(base64, 'base64');
 }
 
 const RESOURCE = 'DataDocument30';
@@ -79,6 +84,32 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
     paramOrder: ['binaryData'],
     active: true,
   },
+  downloadFolder: {
+    soapAction: 'downloadFolder',
+    endpoint: ENDPOINT,
+    uiName: 'Download Folder',
+    subtitleName: 'download folder: files',
+    titleName: 'Download Folder',
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    description: 'Download every file of a folder, one item per file with binary data',
+    returnType: 'FileList',
+    paramOrder: ['folderType', 'mainID'],
+    active: true,
+  },
+  uploadFolder: {
+    soapAction: 'uploadFolder',
+    endpoint: ENDPOINT,
+    uiName: 'Upload Folder',
+    subtitleName: 'upload folder: files',
+    titleName: 'Upload Folder',
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    description: 'Upload every binary property of the input item to a folder',
+    returnType: 'FileList',
+    paramOrder: ['folderType', 'mainID'],
+    active: true,
+  },
   uploadDocument: {
     soapAction: 'upload_Document',
     endpoint: ENDPOINT,
@@ -101,7 +132,7 @@ const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
     .map(op => [op.soapAction, op.paramOrder])
 );
 
-type R = 'StringArray' | 'File' | 'Binary' | 'String' | 'Void';
+type R = 'StringArray' | 'File' | 'FileList' | 'Binary' | 'String' | 'Void';
 const RETURN_TYPE: Record<string, R> = Object.fromEntries(
   Object.values(OPERATION_REGISTRY)
     .filter(op => op.active)
@@ -123,7 +154,7 @@ const extraProperties: INodeProperties[] = [
     options: FolderTypeOptions,
     default: 1,
     description: 'Select the type of folder to get files from',
-    displayOptions: { show: { resource: [RESOURCE], operation: ['getFileList', 'download_Document'] } },
+    displayOptions: { show: { resource: [RESOURCE], operation: ['getFileList', 'download_Document', 'downloadFolder'] } },
   },
   // Dynamic Main ID field based on folder type
   {
@@ -133,7 +164,7 @@ const extraProperties: INodeProperties[] = [
     default: 0,
     typeOptions: { minValue: 0, step: 1 },
     description: 'The main ID for the selected folder type (see folder type label for ID type)',
-    displayOptions: { show: { resource: [RESOURCE], operation: ['getFileList', 'download_Document'] } },
+    displayOptions: { show: { resource: [RESOURCE], operation: ['getFileList', 'download_Document', 'downloadFolder'] } },
   },
   // File Path Name for download
   {
@@ -144,6 +175,18 @@ const extraProperties: INodeProperties[] = [
     description: 'The path and name of the file to download (e.g., \\test.txt)',
     displayOptions: { show: { resource: [RESOURCE], operation: ['download_Document'] } },
   },
+  {
+    displayName: 'Output',
+    name: 'fileOutput',
+    type: 'options',
+    options: [
+      { name: 'Base64 String', value: 'base64' },
+      { name: 'Binary Data (Streamed)', value: 'binary' },
+    ],
+    default: 'base64',
+    description: 'Binary Data decodes the file while it downloads and writes it straight to the binary data property "data", so large files are never held in memory as a whole',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['download_Document'] } },
+  },
   // Convert Bytestream to Binary parameters
   {
     displayName: 'File Content',
@@ -198,7 +241,7 @@ const extraProperties: INodeProperties[] = [
     options: FolderTypeOptions,
     default: 1,
     description: 'Select the type of folder to upload the file to',
-    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'] } },
+    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document', 'uploadFolder'] } },
   },
   {
     displayName: 'Main ID',
@@ -207,6 +250,18 @@ const extraProperties: INodeProperties[] = [
     default: 0,
     typeOptions: { minValue: 0, step: 1 },
     description: 'The main ID for the selected folder type (see folder type label for ID type)',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document', 'uploadFolder'] } },
+  },
+  {
+    displayName: 'File Source',
+    name: 'fileSource',
+    type: 'options',
+    options: [
+      { name: 'Base64 String', value: 'base64' },
+      { name: 'Binary Data (Streamed)', value: 'binary' },
+    ],
+    default: 'base64',
+    description: 'Binary Data encodes the file from the input item while it uploads, so large files are never held in memory as a whole',
     displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'] } },
   },
   {
@@ -215,14 +270,22 @@ const extraProperties: INodeProperties[] = [
     type: 'string',
     default: '',
     description: 'The base64 encoded file content to upload',
-    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'] } },
+    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'], fileSource: ['base64'] } },
+  },
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    default: 'data',
+    description: 'Name of the binary property of the input item that holds the file',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'], fileSource: ['binary'] } },
   },
   {
     displayName: 'File Path Name',
     name: 'filePathName',
     type: 'string',
     default: '',
-    description: 'The name of the file to upload (e.g., document.pdf)',
+    description: 'The name of the file to upload (e.g., document.pdf). With binary data, defaults to the file name of the binary property.',
     displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'] } },
   },
   {
@@ -234,6 +297,47 @@ const extraProperties: INodeProperties[] = [
     description: 'The size of the file in bytes. If not provided, it will be calculated automatically from the byte stream.',
     displayOptions: { show: { resource: [RESOURCE], operation: ['upload_Document'] } },
   },
+  // Folder sync
+  {
+    displayName: 'Output',
+    name: 'folderOutput',
+    type: 'options',
+    options: [
+      { name: 'One Item per File', value: 'files' },
+      { name: 'ZIP Archive', value: 'zip' },
+    ],
+    default: 'files',
+    description: 'ZIP Archive bundles all files of the folder into one binary "data", keeping their paths',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['downloadFolder'] } },
+  },
+  {
+    displayName: 'ZIP File Name',
+    name: 'zipFileName',
+    type: 'string',
+    default: '',
+    placeholder: 'Order_Out_1234.zip',
+    description: 'Name of the archive; defaults to the folder type and main ID',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['downloadFolder'], folderOutput: ['zip'] } },
+  },
+  {
+    displayName: 'Unzip Archives',
+    name: 'unzipArchives',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to expand ZIP binary data and upload each file at its path inside the archive instead of the archive itself',
+    displayOptions: { show: { resource: [RESOURCE], operation: ['uploadFolder'] } },
+  },
+  {
+    displayName: 'Skip Existing Files',
+    name: 'skipExisting',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to leave out files that already exist at the same path: on download the binary data of the input item, on upload the files in Plunet. Plunet lists no file sizes or dates, so changed content at an existing path is not detected.',
+    displayOptions: {
+      show: { resource: [RESOURCE], operation: ['downloadFolder', 'uploadFolder'] },
+      hide: { folderOutput: ['zip'] },
+    },
+  },
 ];
 
 function toSoapParamValue(raw: unknown, paramName: string): string {
@@ -248,6 +352,427 @@ function escapeXml(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
 }
 
+/** A file in a Plunet folder */
+type DocumentRef = { folderType: number; mainID: number; filePathName: string };
+
+/** File name part of a Plunet path such as \\folder\\test.txt */
+function baseName(filePathName: string): string {
+  return filePathName.split(/[\\/]/).pop() || filePathName;
+}
+
+/** Path with backslashes and no leading separator, so paths from getFileList and from binary data compare equal */
+function normalizePath(filePathName: string): string {
+  return filePathName.replace(/\//g, '\\').replace(/^\\+/, '');
+}
+
+/** Sub folder of a Plunet path, '/'-separated like the `directory` of n8n binary data */
+function directoryOf(filePathName: string): string {
+  const parts = normalizePath(filePathName).split('\\');
+  parts.pop();
+  return parts.join('/');
+}
+
+/** Directory of binary data as a Plunet path (backslashes, no outer separators) */
+function binaryDirectory(binary: IBinaryData): string {
+  return (binary.directory || '').replace(/\//g, '\\').replace(/^\\+|\\+$/g, '');
+}
+
+/** Plunet path for binary data: its directory (if any) joined with the file name */
+function binaryPathName(binary: IBinaryData): string {
+  const directory = binaryDirectory(binary);
+  return directory ? `${directory}\\${binary.fileName || ''}` : binary.fileName || '';
+}
+
+/** Throw on SOAP faults and error status codes, as executeOperation does for regular responses. */
+function checkStreamedResponse(xml: string, op: string, url: string, envelope: string): void {
+  const xmlObj = parseXml(xml);
+  const { statusCode, statusMessage } = extractResultBase(xmlObj);
+  throwForSoapFaultOrStatus(xmlObj, op, url, `http://API.Integration/${op}`, envelope, statusCode, statusMessage, RESOURCE);
+}
+
+/** Log in (or reuse the session) and replay once with a fresh login when the cached UUID was rejected. */
+async function withSession<T>(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  baseUrl: string,
+  timeoutMs: number,
+  send: (sessionId: string) => Promise<T>,
+): Promise<T> {
+  const sessionId = await ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0);
+  try {
+    return await send(sessionId);
+  } catch (error) {
+    if (!isSessionExpiredError(error)) throw error;
+    clearSessionByUuid(ctx, sessionId);
+    return send(await ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0));
+  }
+}
+
+/**
+ * download_Document without buffering: `consume` reads the file bytes while they are decoded from the response.
+ * The rest of the response is checked for faults and error codes once the file has been read.
+ */
+async function streamDocument<T>(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  file: DocumentRef,
+  consume: (data: Readable) => Promise<T>,
+): Promise<{ value: T; result: ReturnType<typeof parseFileResult>; bytes: number }> {
+  const op = 'download_Document';
+  return withSession(ctx, creds, baseUrl, timeoutMs, async (sessionId) => {
+    const envelope = buildEnvelope(op, `<UUID>${escapeXml(sessionId)}</UUID>
+<MainID>${escapeXml(String(file.mainID))}</MainID>
+<FolderType>${escapeXml(String(file.folderType))}</FolderType>
+<FilePathName>${escapeXml(file.filePathName)}</FilePathName>`);
+    const response = await sendSoapStream(ctx, url, `http://API.Integration/${op}`, envelope, {
+      retry: retryOptionsFor(creds, op),
+      timeoutMs,
+      soapVersion: creds.soapVersion,
+    });
+
+    const content = extractFileContent(response);
+    const value = await consume(content.data);
+    const xml = content.xml();
+    checkStreamedResponse(xml, op, url, envelope);
+    return { value, result: parseFileResult(xml), bytes: content.bytesReceived() };
+  });
+}
+
+/**
+ * Download one file into n8n's binary data store. The binary data travels in `binaryData`
+ * until postProcessResult moves it to the item's binary property.
+ */
+async function downloadDocumentBinary(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  file: DocumentRef,
+): Promise<IDataObject> {
+  const { value: binaryData, result, bytes } = await streamDocument(ctx, creds, url, baseUrl, timeoutMs, file, (data) =>
+    ctx.helpers.prepareBinaryData(data, baseName(file.filePathName) || 'downloaded_file'),
+  );
+  if (result.filename) binaryData.fileName = baseName(result.filename);
+  const directory = directoryOf(file.filePathName);
+  if (directory) binaryData.directory = directory;
+
+  return {
+    success: true,
+    resource: RESOURCE,
+    operation: 'download_Document',
+    filePathName: file.filePathName,
+    fileSize: result.fileSize ?? bytes,
+    filename: result.filename,
+    statusMessage: result.statusMessage,
+    statusCode: result.statusCode,
+    binaryData: binaryData as unknown as IDataObject,
+  };
+}
+
+/** File content for a streamed upload: base64 text produced on demand */
+type UploadSource = { fileSize: number; contentLength: number; content: () => AsyncIterable<string> };
+
+/** Upload source for binary data; filesystem/S3 mode keeps only an ID on the item, default mode the base64 text itself */
+async function binaryUploadSource(ctx: IExecuteFunctions, binary: IBinaryData): Promise<UploadSource> {
+  if (binary.id) {
+    const binaryDataId = binary.id;
+    const fileSize = (await ctx.helpers.getBinaryMetadata(binaryDataId)).fileSize;
+    return {
+      fileSize,
+      contentLength: base64EncodedLength(fileSize),
+      content: async function* () {
+        yield* encodeBase64(await ctx.helpers.getBinaryStream(binaryDataId));
+      },
+    };
+  }
+  const base64 = binary.data.replace(/\s+/g, '');
+  return {
+    fileSize: base64ByteLength(base64),
+    contentLength: base64.length,
+    content: async function* () {
+      yield base64;
+    },
+  };
+}
+
+/** Upload source for one file inside a ZIP archive, inflated while it uploads */
+function zipEntryUploadSource(archive: ZipSource, entry: ZipEntry): UploadSource {
+  return {
+    fileSize: entry.size,
+    contentLength: base64EncodedLength(entry.size),
+    content: async function* () {
+      yield* encodeBase64(await openZipEntry(archive, entry));
+    },
+  };
+}
+
+/** Bytes of binary data as a stream (binary data store) or a single chunk (kept in memory) */
+async function binaryContent(ctx: IExecuteFunctions, binary: IBinaryData): Promise<Readable> {
+  if (binary.id) return ctx.helpers.getBinaryStream(binary.id);
+  return Readable.from([Buffer.from(binary.data, 'base64')]);
+}
+
+/** ZIP binary data by name, MIME type or extension */
+function isZipBinary(binary: IBinaryData): boolean {
+  return /^application\/(x-)?zip(-compressed)?$/i.test(binary.mimeType || '') || (binary.fileExtension || '').toLowerCase() === 'zip' || /\.zip$/i.test(binary.fileName || '');
+}
+
+/** Random access to a ZIP in binary data: read in place in filesystem mode, otherwise from memory */
+async function binaryZipSource(ctx: IExecuteFunctions, itemIndex: number, binaryProperty: string, binary: IBinaryData): Promise<ZipSource> {
+  if (binary.id?.startsWith('filesystem')) return fileZipSource(ctx.helpers.getBinaryPath(binary.id));
+  return bufferZipSource(await ctx.helpers.getBinaryDataBuffer(itemIndex, binaryProperty));
+}
+
+/** Path inside an archive as a Plunet path; empty, '.' and '..' segments are dropped */
+function zipEntryPath(name: string): string {
+  return name.split(/[\\/]/).filter((part) => part && part !== '.' && part !== '..').join('\\');
+}
+
+/**
+ * upload_Document without buffering: the envelope is streamed and <FileByteStream> is filled from
+ * `source` chunk by chunk.
+ */
+async function uploadDocumentContent(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  file: DocumentRef,
+  source: UploadSource,
+): Promise<IDataObject> {
+  const op = 'upload_Document';
+  const { fileSize, content, contentLength } = source;
+
+  return withSession(ctx, creds, baseUrl, timeoutMs, async (sessionId) => {
+    const envelope = buildEnvelope(op, `<UUID>${escapeXml(sessionId)}</UUID>
+<MainID>${escapeXml(String(file.mainID))}</MainID>
+<FolderType>${escapeXml(String(file.folderType))}</FolderType>
+<FileByteStream></FileByteStream>
+<FilePathName>${escapeXml(file.filePathName)}</FilePathName>
+<FileSize>${escapeXml(String(fileSize))}</FileSize>`);
+    const split = envelope.indexOf('</FileByteStream>');
+    const response = await sendSoapStream(ctx, url, `http://API.Integration/${op}`, {
+      head: envelope.slice(0, split),
+      tail: envelope.slice(split),
+      content,
+      contentLength,
+    }, {
+      retry: retryOptionsFor(creds, op),
+      timeoutMs,
+      soapVersion: creds.soapVersion,
+    });
+
+    const xml = await ctx.helpers.binaryToString(response);
+    checkStreamedResponse(xml, op, url, envelope);
+    return {
+      success: true,
+      resource: RESOURCE,
+      operation: op,
+      message: 'Operation completed successfully',
+      statusMessage: extractStatusMessage(xml),
+      filePathName: file.filePathName,
+      fileSize,
+    };
+  });
+}
+
+/** upload_Document from binary data, streamed from n8n's binary data store */
+async function uploadDocumentBinary(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  file: DocumentRef,
+  binary: IBinaryData,
+  fileSizeOverride = 0,
+): Promise<IDataObject> {
+  const source = await binaryUploadSource(ctx, binary);
+  if (fileSizeOverride > 0) source.fileSize = fileSizeOverride;
+  return uploadDocumentContent(ctx, creds, url, baseUrl, timeoutMs, file, source);
+}
+
+/** Download Document with Output "Binary Data (Streamed)" */
+async function downloadDocumentStreamed(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  itemIndex: number,
+): Promise<IDataObject> {
+  return downloadDocumentBinary(ctx, creds, url, baseUrl, timeoutMs, {
+    folderType: ctx.getNodeParameter('folderType', itemIndex) as number,
+    mainID: ctx.getNodeParameter('mainID', itemIndex) as number,
+    filePathName: String(ctx.getNodeParameter('filePathName', itemIndex, '')).trim(),
+  });
+}
+
+/** Upload Document with File Source "Binary Data (Streamed)" */
+async function uploadDocumentStreamed(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  itemIndex: number,
+): Promise<IDataObject> {
+  const binaryPropertyName = String(ctx.getNodeParameter('binaryPropertyName', itemIndex, 'data')).trim() || 'data';
+  const binary = ctx.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+  const filePathName = String(ctx.getNodeParameter('filePathName', itemIndex, '')).trim() || binary.fileName || '';
+  if (!filePathName) {
+    throw new NodeOperationError(ctx.getNode(), 'File Path Name is required when the binary data has no file name', { itemIndex });
+  }
+  return uploadDocumentBinary(ctx, creds, url, baseUrl, timeoutMs, {
+    folderType: ctx.getNodeParameter('folderType', itemIndex) as number,
+    mainID: ctx.getNodeParameter('mainID', itemIndex) as number,
+    filePathName,
+  }, binary, Number(ctx.getNodeParameter('fileSize', itemIndex, 0)));
+}
+
+/** Paths of a folder from getFileList */
+async function listFolder(ctx: IExecuteFunctions, config: ExecuteConfig, folderType: number, mainID: number, itemIndex: number): Promise<string[]> {
+  const list = await executeOperation(ctx, 'getFileList', { folderType, mainID }, config, itemIndex) as IDataObject;
+  return ((list.files as string[] | undefined) ?? []).filter((f) => f);
+}
+
+/**
+ * Download Folder: one output item per file, with the path inside the folder in `filePathName`.
+ * With skipExisting, files the input item already carries at the same path are not downloaded.
+ * In ZIP mode the files are bundled into one archive, keeping their paths.
+ */
+async function downloadFolder(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  itemIndex: number,
+  config: ExecuteConfig,
+): Promise<IDataObject[]> {
+  const folderType = ctx.getNodeParameter('folderType', itemIndex) as number;
+  const mainID = ctx.getNodeParameter('mainID', itemIndex) as number;
+  const skipExisting = ctx.getNodeParameter('skipExisting', itemIndex, false) as boolean;
+  const files = await listFolder(ctx, config, folderType, mainID, itemIndex);
+
+  if (ctx.getNodeParameter('folderOutput', itemIndex, 'files') === 'zip') {
+    // Each file goes to the binary data store first; the archive is then deflated from there as a stream
+    const downloads: { filePathName: string; fileSize: unknown; binary: IBinaryData }[] = [];
+    for (const filePathName of files) {
+      const payload = await downloadDocumentBinary(ctx, creds, url, baseUrl, timeoutMs, { folderType, mainID, filePathName });
+      downloads.push({ filePathName, fileSize: payload.fileSize, binary: payload.binaryData as unknown as IBinaryData });
+    }
+    const label = String(FolderTypeOptions.find((o) => o.value === folderType)?.name ?? `Folder ${folderType}`);
+    const zipFileName = String(ctx.getNodeParameter('zipFileName', itemIndex, '')).trim()
+      || `${label.replace(/\s*\(.*$/, '').replace(/\s+/g, '_')}_${mainID}.zip`;
+    const archive = createZip(downloads.map((d) => ({
+      name: normalizePath(d.filePathName).replace(/\\/g, '/'),
+      open: () => binaryContent(ctx, d.binary),
+    })));
+    const binaryData = await ctx.helpers.prepareBinaryData(archive, zipFileName, 'application/zip');
+    return [{
+      success: true,
+      resource: RESOURCE,
+      operation: 'downloadFolder',
+      folderType,
+      mainID,
+      fileName: zipFileName,
+      files: downloads.map((d) => ({ filePathName: d.filePathName, fileSize: d.fileSize })),
+      binaryData: binaryData as unknown as IDataObject,
+    }];
+  }
+
+  const known = new Set<string>();
+  if (skipExisting) {
+    for (const binary of Object.values(ctx.getInputData()[itemIndex]?.binary ?? {})) known.add(normalizePath(binaryPathName(binary)));
+  }
+
+  const out: IDataObject[] = [];
+  for (const filePathName of files) {
+    if (known.has(normalizePath(filePathName))) continue;
+    const payload = await downloadDocumentBinary(ctx, creds, url, baseUrl, timeoutMs, { folderType, mainID, filePathName });
+    out.push({ ...payload, operation: 'downloadFolder', folderType, mainID });
+  }
+  return out;
+}
+
+/**
+ * Upload Folder: every binary property of the input item, at its directory/file name.
+ * With unzipArchives, ZIP binary data is expanded and each file is uploaded at its path inside the archive;
+ * data named .zip that is not a ZIP archive is uploaded as it is.
+ * With skipExisting, files Plunet already lists at the same path are not uploaded.
+ */
+async function uploadFolder(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  url: string,
+  baseUrl: string,
+  timeoutMs: number,
+  itemIndex: number,
+  config: ExecuteConfig,
+): Promise<IDataObject> {
+  const folderType = ctx.getNodeParameter('folderType', itemIndex) as number;
+  const mainID = ctx.getNodeParameter('mainID', itemIndex) as number;
+  const skipExisting = ctx.getNodeParameter('skipExisting', itemIndex, false) as boolean;
+
+  const binaries = Object.entries(ctx.getInputData()[itemIndex]?.binary ?? {});
+  if (!binaries.length) {
+    throw new NodeOperationError(ctx.getNode(), 'The input item has no binary data to upload', { itemIndex });
+  }
+
+  const existing = new Set<string>();
+  if (skipExisting) {
+    for (const path of await listFolder(ctx, config, folderType, mainID, itemIndex)) existing.add(normalizePath(path));
+  }
+
+  const unzipArchives = ctx.getNodeParameter('unzipArchives', itemIndex, false) as boolean;
+
+  // Files to send: plain binary data, or the entries of expanded archives
+  const pending: { binaryProperty: string; archiveEntry?: string; filePathName: string; source: () => Promise<UploadSource> }[] = [];
+  for (const [binaryProperty, binary] of binaries) {
+    const archive = unzipArchives && isZipBinary(binary) ? await binaryZipSource(ctx, itemIndex, binaryProperty, binary) : undefined;
+    // A .zip that is not an archive is uploaded as-is
+    if (archive && await isZip(archive)) {
+      const directory = binaryDirectory(binary);
+      for (const entry of await readZipEntries(archive)) {
+        const entryPath = zipEntryPath(entry.name);
+        if (!entryPath) continue;
+        pending.push({
+          binaryProperty,
+          archiveEntry: entry.name,
+          filePathName: directory ? `${directory}\\${entryPath}` : entryPath,
+          source: async () => zipEntryUploadSource(archive, entry),
+        });
+      }
+      continue;
+    }
+    pending.push({
+      binaryProperty,
+      filePathName: binaryPathName(binary) || binaryProperty,
+      source: () => binaryUploadSource(ctx, binary),
+    });
+  }
+
+  const uploaded: IDataObject[] = [];
+  const skipped: string[] = [];
+  for (const { source: openSource, ...upload } of pending) {
+    if (existing.has(normalizePath(upload.filePathName))) {
+      skipped.push(upload.filePathName);
+      continue;
+    }
+    const source = await openSource();
+    const r = await uploadDocumentContent(ctx, creds, url, baseUrl, timeoutMs, { folderType, mainID, filePathName: upload.filePathName }, source);
+    uploaded.push({ ...upload, fileSize: r.fileSize });
+  }
+
+  return { success: true, resource: RESOURCE, operation: 'uploadFolder', folderType, mainID, uploaded, skipped };
+}
+
 function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
   return {
     url,
@@ -255,6 +780,8 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
     paramOrder: PARAM_ORDER,
     numericBooleans: NUMERIC_BOOLEAN_PARAMS,
     getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+    creds, // Pass credentials for debug mode and retry settings
+    timeoutMs, // Credential timeout or node override
     buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
       if (op === 'getFileList') {
         const folderType = itemParams.folderType as number;
@@ -284,7 +811,6 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
         if (!fileSize || fileSize === 0) {
           // Decode base64 to get the actual file size
           try {
-            // @ts-ignore - Buffer is available globally in Node.js
             const buffer = Buffer.from(fileByteStream, 'base64');
             calculatedFileSize = buffer.length;
           } catch (error) {
@@ -366,6 +892,14 @@ export const DataDocument30Service: Service = {
     const paramNames = PARAM_ORDER[operation];
     if (!paramNames) throw new Error(`Unsupported operation for ${RESOURCE}: ${operation}`);
     const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+    if (operation === 'downloadFolder') return downloadFolder(ctx, creds, url, baseUrl, timeoutMs, itemIndex, config);
+    if (operation === 'uploadFolder') return uploadFolder(ctx, creds, url, baseUrl, timeoutMs, itemIndex, config);
+    if (operation === 'download_Document' && ctx.getNodeParameter('fileOutput', itemIndex, 'base64') === 'binary') {
+      return downloadDocumentStreamed(ctx, creds, url, baseUrl, timeoutMs, itemIndex);
+    }
+    if (operation === 'upload_Document' && ctx.getNodeParameter('fileSource', itemIndex, 'base64') === 'binary') {
+      return uploadDocumentStreamed(ctx, creds, url, baseUrl, timeoutMs, itemIndex);
+    }
     const itemParams: IDataObject = {};
     for (const paramName of paramNames) itemParams[paramName] = ctx.getNodeParameter(paramName, itemIndex, '');
     const result = await executeOperation(ctx, operation, itemParams, config, itemIndex);
@@ -386,7 +920,6 @@ export const DataDocument30Service: Service = {
       
       try {
         // Convert base64 string to Buffer using global Buffer
-        // @ts-ignore - Buffer is available globally in Node.js
         const buffer = Buffer.from(fileContent, 'base64');
         
         // Use prepareBinaryData with the Buffer
@@ -424,7 +957,6 @@ export const DataDocument30Service: Service = {
         
         try {
           // Validate that it's a valid base64 string by trying to decode it
-          // @ts-ignore - Buffer is available globally in Node.js
           const buffer = Buffer.from(base64String, 'base64');
           
           return {
@@ -499,15 +1031,21 @@ export const DataDocument30Service: Service = {
   
   // Check if result needs post-processing (e.g., binary data handling)
   needsPostProcessing(operation: string, payload: IDataObject): boolean {
-    return operation === 'downloadDocument' && Boolean(payload.fileContent);
+    return (operation === 'downloadDocument' && Boolean(payload.fileContent)) || Boolean(payload.binaryData);
   },
   
   // Post-process results (e.g., convert file content to binary data)
   async postProcessResult(operation: string, payload: IDataObject, ctx: IExecuteFunctions, itemIndex: number) {
+    // Streamed download: the file is already in the binary data store
+    if (payload.binaryData) {
+      const { binaryData, ...json } = payload;
+      return { json, binary: { data: binaryData as unknown as IBinaryData } };
+    }
+
     if (operation === 'downloadDocument' && payload.fileContent) {
       try {
-        // Convert base64 string to Uint8Array
-        const fileBuffer = base64ToUint8Array(String(payload.fileContent));
+        // Convert base64 string to Buffer
+        const fileBuffer = base64ToBuffer(String(payload.fileContent));
         
         // Prepare binary data for n8n
         const binaryData = await ctx.helpers.prepareBinaryData(
@@ -17,7 +17,7 @@ import {
   import { TaxTypeOptions, idToTaxTypeName } from '../enums/tax-type';
 import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-type';
   import { MANDATORY_FIELDS } from '../core/field-definitions';
-  import { generateOperationOptionsFromRegistry } from '../core/service-utils';
+  import { createStandardExecuteConfig, generateOperationOptionsFromRegistry } from '../core/service-utils';
   import { DataItem30MiscService } from './dataItem30.misc';
   
   const RESOURCE = 'DataItem30Core';
@@ -532,6 +532,7 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
       numericBooleans: NUMERIC_BOOLEAN_PARAMS,
       getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
       creds, // Pass credentials for debug mode
+      timeoutMs, // Credential timeout or node override
       resource: RESOURCE, // Pass resource name for error context
       buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
         if (op === 'getLanguageIndependentItemObject') {
@@ -737,15 +738,16 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
               // Get the additional parameter (comment, defaultContactPerson, etc.)
               const additionalParam = args[2]; // The third parameter is the value to set
               
-              const miscConfig = {
-                url: url.replace('/DataItem30', '/DataItem30'),
-                soapActionFor: (operation: string) => `http://API.Integration/${operation}`,
-                paramOrder: { [op]: ['itemID', 'projectType'] },
-                numericBooleans: new Set<string>(),
-                getSessionId: async () => sessionId,
-                buildCustomBodyXml: (operation: string, params: IDataObject) => {
+              const miscConfig = createStandardExecuteConfig(
+                creds,
+                url,
+                baseUrl,
+                timeoutMs,
+                { [op]: ['itemID', 'projectType'] },
+                (xml: string) => parseStringResult(xml),
+                (operation: string, params: IDataObject, sid: string) => {
                   if (operation === op) {
-                    let xml = `<UUID>${escapeXml(sessionId)}</UUID>
+                    let xml = `<UUID>${escapeXml(sid)}</UUID>
 <itemID>${escapeXml(String(itemID))}</itemID>
 <projectType>${escapeXml(String(projectType))}</projectType>`;
                     
@@ -764,8 +766,8 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
                   }
                   return null;
                 },
-                parseResult: (xml: string) => parseStringResult(xml)
-              };
+                RESOURCE,
+              );
               
               const result = await executeOperation(ctx, op, { itemID, projectType }, miscConfig, itemIndex);
               
@@ -829,22 +831,23 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
               // Specialized function for language combination calls
               const callLanguageCombination = async (op: string, ...params: any[]) => {
                 try {
-                  const miscConfig = {
-                    url: url.replace('/DataItem30', '/DataItem30'),
-                    soapActionFor: (operation: string) => `http://API.Integration/${operation}`,
-                    paramOrder: { [op]: op === 'addLanguageCombination2' ? ['sourceLanguage', 'targetLanguage', 'projectType', 'projectID'] : ['languageCombinationID', 'projectType', 'itemID'] },
-                    numericBooleans: new Set<string>(),
-                    getSessionId: async () => sessionId,
-                    buildCustomBodyXml: (operation: string, params: IDataObject) => {
+                  const miscConfig = createStandardExecuteConfig(
+                    creds,
+                    url,
+                    baseUrl,
+                    timeoutMs,
+                    { [op]: op === 'addLanguageCombination2' ? ['sourceLanguage', 'targetLanguage', 'projectType', 'projectID'] : ['languageCombinationID', 'projectType', 'itemID'] },
+                    (xml: string) => parseStringResult(xml),
+                    (operation: string, params: IDataObject, sid: string) => {
                       if (operation === op) {
                         if (op === 'addLanguageCombination2') {
-                          return `<UUID>${escapeXml(sessionId)}</UUID>
+                          return `<UUID>${escapeXml(sid)}</UUID>
 <sourceLanguage>${escapeXml(String(sourceLanguage))}</sourceLanguage>
 <targetLanguage>${escapeXml(String(targetLanguage))}</targetLanguage>
 <projectType>${escapeXml(String(projectType))}</projectType>
 <projectID>${escapeXml(String(itemParams.projectID))}</projectID>`;
                         } else if (op === 'setLanguageCombinationID') {
-                          return `<UUID>${escapeXml(sessionId)}</UUID>
+                          return `<UUID>${escapeXml(sid)}</UUID>
 <languageCombinationID>${escapeXml(String(params.languageCombinationID || params[0]))}</languageCombinationID>
 <projectType>${escapeXml(String(projectType))}</projectType>
 <itemID>${escapeXml(String(itemID))}</itemID>`;
@@ -852,8 +855,8 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
                       }
                       return null;
                     },
-                    parseResult: (xml: string) => parseStringResult(xml)
-                  };
+                    RESOURCE,
+                  );
                   
                   // Prepare parameters for executeOperation
                   let operationParams: IDataObject = {};
@@ -966,15 +969,16 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
               // Get the additional parameter (comment, defaultContactPerson, etc.)
               const additionalParam = args[2]; // The third parameter is the value to set
               
-              const miscConfig = {
-                url: url.replace('/DataItem30', '/DataItem30'),
-                soapActionFor: (operation: string) => `http://API.Integration/${operation}`,
-                paramOrder: { [op]: ['itemID', 'projectType'] },
-                numericBooleans: new Set<string>(),
-                getSessionId: async () => sessionId,
-                buildCustomBodyXml: (operation: string, params: IDataObject) => {
+              const miscConfig = createStandardExecuteConfig(
+                creds,
+                url,
+                baseUrl,
+                timeoutMs,
+                { [op]: ['itemID', 'projectType'] },
+                (xml: string) => parseStringResult(xml),
+                (operation: string, params: IDataObject, sid: string) => {
                   if (operation === op) {
-                    let xml = `<UUID>${escapeXml(sessionId)}</UUID>
+                    let xml = `<UUID>${escapeXml(sid)}</UUID>
 <itemID>${escapeXml(String(itemID))}</itemID>
 <projectType>${escapeXml(String(projectType))}</projectType>`;
                     
@@ -993,8 +997,8 @@ import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-typ
                   }
                   return null;
                 },
-                parseResult: (xml: string) => parseStringResult(xml)
-              };
+                RESOURCE,
+              );
               
               const result = await executeOperation(ctx, op, { itemID, projectType }, miscConfig, itemIndex);
               
@@ -242,6 +242,8 @@ import { getAvailableWorkflows } from './loadOptions';
       paramOrder: PARAM_ORDER,
       numericBooleans: NUMERIC_BOOLEAN_PARAMS,
       getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+      creds, // Pass credentials for debug mode and retry settings
+      timeoutMs, // Credential timeout or node override
       buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
         if (op === 'addLanguageCombination2') {
           return `<UUID>${escapeXml(sessionId)}</UUID>
@@ -17,7 +17,7 @@ import {
   import { JobStatusOptions } from '../enums/job-status';
   import { ItemStatusOptions } from '../enums/item-status';
   import { MANDATORY_FIELDS } from '../core/field-definitions';
-  import { generateOperationOptionsFromRegistry } from '../core/service-utils';
+  import { generateOperationOptionsFromRegistry, createSearchExpansionProperties, expandSearchResult } from '../core/service-utils';
   import { escapeXml } from '../core/soap';
   
   const RESOURCE = 'DataJob30Core';
@@ -305,6 +305,18 @@ import {
       description: 'Filter jobs created until this date (optional)',
       displayOptions: { show: { resource: [RESOURCE], operation: ['search'] } },
     },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+    {
+      displayName: 'Project Type',
+      name: 'projectType',
+      type: 'options',
+      options: ProjectTypeOptions,
+      default: 3,
+      description: 'Project type passed to getJob_ForView when fetching full job objects',
+      displayOptions: { show: { resource: [RESOURCE], operation: ['search'], returnFullObjects: [true] } },
+    },
   ];
   
   function toSoapParamValue(raw: unknown, paramName: string): string {
@@ -323,6 +335,8 @@ import {
       paramOrder: PARAM_ORDER,
       numericBooleans: NUMERIC_BOOLEAN_PARAMS,
       getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+      creds, // Pass credentials for debug mode and retry settings
+      timeoutMs, // Credential timeout or node override
       buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
         if (op === 'insert3') {
           const projectID = itemParams.projectID as number;
@@ -493,8 +507,18 @@ import {
         for (const paramName of paramNames) itemParams[paramName] = ctx.getNodeParameter(paramName, itemIndex, '');
       }
       
-      const result = await executeOperation(ctx, operation, itemParams, config, itemIndex);
-      return Array.isArray(result) ? result[0] || {} : result;
+      const raw = await executeOperation(ctx, operation, itemParams, config, itemIndex);
+      const result = Array.isArray(raw) ? raw[0] || {} : raw;
+
+      if (operation === 'search') {
+        // Search runs against ReportJob30; the job objects come from DataJob30
+        const jobConfig = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        const projectType = ctx.getNodeParameter('projectType', itemIndex, 3) as number;
+        return await expandSearchResult(ctx, itemIndex, result, (id) =>
+          executeOperation(ctx, 'getJob_ForView', { jobID: id, projectType }, jobConfig, itemIndex),
+        );
+      }
+      return result;
     },
   };
   
\ No newline at end of file
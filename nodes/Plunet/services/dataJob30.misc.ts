@@ -10,7 +10,7 @@ import {
   import { executeOperation, type ExecuteConfig } from '../core/executor';
   import { NUMERIC_BOOLEAN_PARAMS } from '../core/constants';
   import { extractStatusMessage, parseStringResult, parseIntegerResult, parseVoidResult, parseDateResult } from '../core/xml';
-  import { parseJobListResult } from '../core/parsers/job';
+  import { parseJobListResult, parseJobTrackingTimeListResult } from '../core/parsers/job';
   import { ProjectTypeOptions } from '../enums/project-type';
   import { JobStatusOptions } from '../enums/job-status';
   import { generateOperationOptionsFromRegistry } from '../core/service-utils';
@@ -460,7 +460,7 @@ import {
     Object.values(OPERATION_REGISTRY).filter(op => op.active).map(op => [op.soapAction, op.paramOrder])
   );
   
-  type R = 'Void' | 'String' | 'Integer' | 'Date' | 'JobList';
+  type R = 'Void' | 'String' | 'Integer' | 'Date' | 'JobList' | 'JobTrackingTimeList';
   
   const RETURN_TYPE: Record<string, R> = Object.fromEntries(
     Object.values(OPERATION_REGISTRY).filter(op => op.active).map(op => [op.soapAction, op.returnType as R])
@@ -516,6 +516,8 @@ import {
       paramOrder: PARAM_ORDER,
       numericBooleans: NUMERIC_BOOLEAN_PARAMS,
       getSessionId: async (ctx: IExecuteFunctions) => ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0),
+      creds, // Pass credentials for debug mode and retry settings
+      timeoutMs, // Credential timeout or node override
       buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => null,
       parseResult: (xml: string, op: string) => {
         const rt = RETURN_TYPE[op] as R | undefined;
@@ -526,6 +528,11 @@ import {
             payload = { jobs: r.jobs, statusMessage: r.statusMessage, statusCode: r.statusCode };
             break;
           }
+          case 'JobTrackingTimeList': {
+            const r = parseJobTrackingTimeListResult(xml);
+            payload = { times: r.times, completed: r.completed, statusMessage: r.statusMessage, statusCode: r.statusCode };
+            break;
+          }
           case 'String': {
             const r = parseStringResult(xml);
             payload = { data: r.data ?? '', statusMessage: r.statusMessage, statusCode: r.statusCode };
@@ -1193,6 +1193,8 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
         getSessionId: async (ctx: IExecuteFunctions) => {
             return await ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0);
         },
+        creds, // Pass credentials for debug mode and retry settings
+        timeoutMs, // Credential timeout or node override
         buildCustomBodyXml: (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
             if (op === 'insert3') {
                 // Get mandatory fields
@@ -10,7 +10,7 @@ import {
     extractResultBase, extractStatusMessage, extractSoapFault, parseIntegerResult, parseIntegerArrayResult, parseVoidResult,
 } from '../core/xml';
 import { parseOrderResult } from '../core/parsers/order';
-import { ProjectTypeOptions } from '../enums/project-type';
+import { ProjectTypeOptions, ProjectTypeIdByName } from '../enums/project-type';
 import { ArchivStatusOptions, idToArchivStatusName } from '../enums/archiv-status';
 import { ProjectClassTypeOptions } from '../enums/project-class-type';
 import { ItemStatusOptions } from '../enums/item-status';
@@ -27,8 +27,13 @@ import {
     createTypedProperty,
     handleVoidResult,
     buildSearchFilterXml,
+    buildTimeFrameSearchFilterXml,
+    createSearchExpansionProperties,
+    expandSearchResult,
+    executeServiceOperation,
 } from '../core/service-utils';
 import { escapeXml } from '../core/soap';
+import { createProjectTreeProperties } from './dataOrder30.tree';
 
 const RESOURCE = 'DataOrder30Core';
 const ENDPOINT = 'DataOrder30';
@@ -75,6 +80,19 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
         paramOrder: ['customerID', 'projectManagerID', 'currency', 'customerContactID', 'deliveryDeadline', 'orderDate', 'projectManagerMemo', 'projectName', 'rate', 'referenceNumber', 'subject', 'requestID', 'creationDate', 'en15038Requested', 'externalID', 'masterProjectID', 'projectCategory', 'projectStatus'],
         active: true,
     },
+    insertOrderFromTemplate: {
+        soapAction: 'insert_byTemplate',
+        endpoint: ENDPOINT,
+        uiName: 'Create Order from Template',
+        subtitleName: 'insert from template: order',
+        titleName: 'Create an Order from a Template',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Create an order from a template, then add language combinations and apply a workflow in one step',
+        returnType: 'Integer',
+        paramOrder: ['templateID', 'customerID', 'projectManagerID'],
+        active: true,
+    },
     updateOrder: {
         soapAction: 'update',
         endpoint: ENDPOINT,
@@ -101,6 +119,19 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
         paramOrder: ['languageCode', 'dateRelation', 'dateFrom', 'dateTo', 'searchFilters'],
         active: true,
     },
+    getProjectTree: {
+        soapAction: 'getProjectTree',
+        endpoint: ENDPOINT,
+        uiName: 'Get Project Tree',
+        subtitleName: 'get tree: order',
+        titleName: 'Get an Order Project Tree',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve an order with its items, jobs, price lines and file lists as one nested document',
+        returnType: 'Order',
+        paramOrder: ['orderID'],
+        active: true,
+    },
 };
 
 /** ─ Legacy compatibility mappings ─ */
@@ -119,6 +150,72 @@ const RETURN_TYPE: Record<string, R> = Object.fromEntries(
 
 const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
 
+/** Optional SearchFilter fields for order searches (shared with the Plunet Trigger node). */
+export const ORDER_SEARCH_FILTER_OPTIONS: INodeProperties[] = [
+    {
+        displayName: 'Customer ID',
+        name: 'customerID',
+        type: 'number',
+        default: 0,
+        description: 'Filter by customer ID',
+    },
+    {
+        displayName: 'Item Status',
+        name: 'itemStatus',
+        type: 'options',
+        options: ItemStatusOptions,
+        default: 1,
+        description: 'Filter by item status',
+    },
+    {
+        displayName: 'Project Description',
+        name: 'projectDescription',
+        type: 'string',
+        default: '',
+        description: 'Filter by project description',
+    },
+    {
+        displayName: 'Project Name',
+        name: 'projectName',
+        type: 'string',
+        default: '',
+        description: 'Filter by project name',
+    },
+    {
+        displayName: 'Project Type',
+        name: 'projectType',
+        type: 'options',
+        options: ProjectClassTypeOptions,
+        default: 0,
+        description: 'Filter by project type',
+    },
+    {
+        displayName: 'Source Language',
+        name: 'sourceLanguage',
+        type: 'string',
+        default: '',
+        description: 'Filter by source language',
+    },
+    {
+        displayName: 'Target Language',
+        name: 'targetLanguage',
+        type: 'string',
+        default: '',
+        description: 'Filter by target language',
+    },
+    {
+        displayName: 'Status Project File Archiving',
+        name: 'statusProjectFileArchiving',
+        type: 'options',
+        options: ArchivStatusOptions,
+        default: 0,
+        description: 'Filter by project file archiving status',
+    },
+];
+
+/** SearchFilter tags in the order they are sent. */
+export const ORDER_SEARCH_FILTER_FIELDS = ORDER_SEARCH_FILTER_OPTIONS.map((o) => o.name);
+
 const extraProperties: INodeProperties[] = [
     // Order ID parameter
     {
@@ -131,7 +228,7 @@ const extraProperties: INodeProperties[] = [
         displayOptions: {
             show: {
                 resource: [RESOURCE],
-                operation: ['getOrderObject', 'delete'],
+                operation: ['getOrderObject', 'delete', 'getProjectTree'],
             },
         },
     },
@@ -146,7 +243,7 @@ const extraProperties: INodeProperties[] = [
         displayOptions: {
             show: {
                 resource: [RESOURCE],
-                operation: ['insert2'],
+                operation: ['insert2', 'insert_byTemplate'],
             },
         },
     },
@@ -161,7 +258,22 @@ const extraProperties: INodeProperties[] = [
         displayOptions: {
             show: {
                 resource: [RESOURCE],
-                operation: ['insert2'],
+                operation: ['insert2', 'insert_byTemplate'],
+            },
+        },
+    },
+    // Template ID parameter
+    {
+        displayName: 'Template ID',
+        name: 'templateID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the order template (see Order Fields → Get List of Templates)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert_byTemplate'],
             },
         },
     },
@@ -224,7 +336,7 @@ const extraProperties: INodeProperties[] = [
         displayOptions: {
             show: {
                 resource: [RESOURCE],
-                operation: ['insert2'],
+                operation: ['insert2', 'insert_byTemplate'],
             },
         },
         options: [
@@ -293,6 +405,67 @@ const extraProperties: INodeProperties[] = [
             },
         ],
     },
+    // Language combinations added after creating an order from a template
+    {
+        displayName: 'Language Combinations',
+        name: 'languageCombinations',
+        type: 'fixedCollection',
+        typeOptions: {
+            multipleValues: true,
+        },
+        default: {},
+        placeholder: 'Add Language Combination',
+        description: 'Source/target language pairs to add to the new order',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert_byTemplate'],
+            },
+        },
+        options: [
+            {
+                displayName: 'Combination',
+                name: 'combination',
+                values: [
+                    {
+                        displayName: 'Source Language',
+                        name: 'sourceLanguage',
+                        type: 'options',
+                        typeOptions: {
+                            loadOptionsMethod: 'getAvailableLanguages',
+                        },
+                        default: '',
+                    },
+                    {
+                        displayName: 'Target Language',
+                        name: 'targetLanguage',
+                        type: 'options',
+                        typeOptions: {
+                            loadOptionsMethod: 'getAvailableLanguages',
+                        },
+                        default: '',
+                    },
+                ],
+            },
+        ],
+    },
+    // Workflow applied to the template items
+    {
+        displayName: 'Workflow',
+        name: 'workflowID',
+        type: 'options',
+        typeOptions: {
+            loadOptionsMethod: 'getAvailableWorkflows',
+        },
+        default: '',
+        description: 'Optional workflow whose jobs are copied to every item of the new order (copyJobsFromWorkflow)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert_byTemplate'],
+            },
+        },
+    },
     // Collection for additional field operations
     {
         displayName: 'Additional Field Operations',
@@ -630,70 +803,40 @@ const extraProperties: INodeProperties[] = [
                 operation: ['search'],
             },
         },
-        options: [
-            {
-                displayName: 'Customer ID',
-                name: 'customerID',
-                type: 'number',
-                default: 0,
-                description: 'Filter by customer ID',
-            },
-            {
-                displayName: 'Item Status',
-                name: 'itemStatus',
-                type: 'options',
-                options: ItemStatusOptions,
-                default: 1,
-                description: 'Filter by item status',
-            },
-            {
-                displayName: 'Project Description',
-                name: 'projectDescription',
-                type: 'string',
-                default: '',
-                description: 'Filter by project description',
-            },
-            {
-                displayName: 'Project Name',
-                name: 'projectName',
-                type: 'string',
-                default: '',
-                description: 'Filter by project name',
-            },
-            {
-                displayName: 'Project Type',
-                name: 'projectType',
-                type: 'options',
-                options: ProjectClassTypeOptions,
-                default: 0,
-                description: 'Filter by project type',
-            },
-            {
-                displayName: 'Source Language',
-                name: 'sourceLanguage',
-                type: 'string',
-                default: '',
-                description: 'Filter by source language',
-            },
-            {
-                displayName: 'Target Language',
-                name: 'targetLanguage',
-                type: 'string',
-                default: '',
-                description: 'Filter by target language',
-            },
-            {
-                displayName: 'Status Project File Archiving',
-                name: 'statusProjectFileArchiving',
-                type: 'options',
-                options: ArchivStatusOptions,
-                default: 0,
-                description: 'Filter by project file archiving status',
-            },
-        ],
+        options: ORDER_SEARCH_FILTER_OPTIONS,
     },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+
+    // Depth and sub-collections for getProjectTree
+    ...createProjectTreeProperties(RESOURCE, 'getProjectTree'),
 ];
 
+/** Build the <OrderIN> block shared by insert2, insert_byTemplate and update. */
+function buildOrderINXml(customerID: number, projectManagerID: number, additionalFields: IDataObject, orderID?: number): string {
+    let orderIN = `<OrderIN>`;
+
+    // Add required fields
+    if (orderID !== undefined) orderIN += `\n<orderID>${orderID}</orderID>`;
+    orderIN += `\n<customerID>${customerID}</customerID>`;
+    orderIN += `\n<projectManagerID>${projectManagerID}</projectManagerID>`;
+
+    // Add optional fields from collection
+    if (additionalFields.currency) orderIN += `\n<currency>${escapeXml(additionalFields.currency as string)}</currency>`;
+    if (additionalFields.customerContactID) orderIN += `\n<customerContactID>${additionalFields.customerContactID}</customerContactID>`;
+    if (additionalFields.deliveryDeadline) orderIN += `\n<deliveryDeadline>${escapeXml(additionalFields.deliveryDeadline as string)}</deliveryDeadline>`;
+    if (additionalFields.orderDate) orderIN += `\n<orderDate>${escapeXml(additionalFields.orderDate as string)}</orderDate>`;
+    if (additionalFields.projectManagerMemo) orderIN += `\n<projectManagerMemo>${escapeXml(additionalFields.projectManagerMemo as string)}</projectManagerMemo>`;
+    if (additionalFields.projectName) orderIN += `\n<projectName>${escapeXml(additionalFields.projectName as string)}</projectName>`;
+    if (additionalFields.rate && additionalFields.rate !== 1.0) orderIN += `\n<rate>${additionalFields.rate}</rate>`;
+    if (additionalFields.referenceNumber) orderIN += `\n<referenceNumber>${escapeXml(additionalFields.referenceNumber as string)}</referenceNumber>`;
+    if (additionalFields.subject) orderIN += `\n<subject>${escapeXml(additionalFields.subject as string)}</subject>`;
+
+    orderIN += `\n</OrderIN>`;
+    return orderIN;
+}
+
 // Create the execution configuration
 function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
     return createStandardExecuteConfig(
@@ -749,27 +892,18 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                 const projectManagerID = ctx.getNodeParameter('projectManagerID', itemIndex, 0) as number;
                 const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
                 
-                let orderIN = `<OrderIN>`;
-                
-                // Add required fields
-                orderIN += `\n<customerID>${customerID}</customerID>`;
-                orderIN += `\n<projectManagerID>${projectManagerID}</projectManagerID>`;
-                
-                // Add optional fields from collection
-                if (additionalFields.currency) orderIN += `\n<currency>${escapeXml(additionalFields.currency as string)}</currency>`;
-                if (additionalFields.customerContactID) orderIN += `\n<customerContactID>${additionalFields.customerContactID}</customerContactID>`;
-                if (additionalFields.deliveryDeadline) orderIN += `\n<deliveryDeadline>${escapeXml(additionalFields.deliveryDeadline as string)}</deliveryDeadline>`;
-                if (additionalFields.orderDate) orderIN += `\n<orderDate>${escapeXml(additionalFields.orderDate as string)}</orderDate>`;
-                if (additionalFields.projectManagerMemo) orderIN += `\n<projectManagerMemo>${escapeXml(additionalFields.projectManagerMemo as string)}</projectManagerMemo>`;
-                if (additionalFields.projectName) orderIN += `\n<projectName>${escapeXml(additionalFields.projectName as string)}</projectName>`;
-                if (additionalFields.rate && additionalFields.rate !== 1.0) orderIN += `\n<rate>${additionalFields.rate}</rate>`;
-                if (additionalFields.referenceNumber) orderIN += `\n<referenceNumber>${escapeXml(additionalFields.referenceNumber as string)}</referenceNumber>`;
-                if (additionalFields.subject) orderIN += `\n<subject>${escapeXml(additionalFields.subject as string)}</subject>`;
-                
-                orderIN += `\n</OrderIN>`;
+                const orderIN = buildOrderINXml(customerID, projectManagerID, additionalFields);
                 
                 return `<UUID>${escapeXml(sessionId)}</UUID>\n${orderIN}`;
             }
+            if (op === 'insert_byTemplate') {
+                const templateID = ctx.getNodeParameter('templateID', itemIndex, 0) as number;
+                const customerID = ctx.getNodeParameter('customerID', itemIndex, 0) as number;
+                const projectManagerID = ctx.getNodeParameter('projectManagerID', itemIndex, 0) as number;
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const orderIN = buildOrderINXml(customerID, projectManagerID, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${orderIN}\n<templateID>${templateID}</templateID>`;
+            }
             if (op === 'update') {
                 // Build custom SOAP body for update operation
                 const orderID = ctx.getNodeParameter('orderID', itemIndex, 0) as number;
@@ -778,25 +912,7 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                 const enableNullOrEmptyValues = ctx.getNodeParameter('enableNullOrEmptyValues', itemIndex, false) as boolean;
                 const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
                 
-                let orderIN = `<OrderIN>`;
-                
-                // Add required fields
-                orderIN += `\n<orderID>${orderID}</orderID>`;
-                orderIN += `\n<customerID>${customerID}</customerID>`;
-                orderIN += `\n<projectManagerID>${projectManagerID}</projectManagerID>`;
-                
-                // Add optional fields from collection
-                if (additionalFields.currency) orderIN += `\n<currency>${escapeXml(additionalFields.currency as string)}</currency>`;
-                if (additionalFields.customerContactID) orderIN += `\n<customerContactID>${additionalFields.customerContactID}</customerContactID>`;
-                if (additionalFields.deliveryDeadline) orderIN += `\n<deliveryDeadline>${escapeXml(additionalFields.deliveryDeadline as string)}</deliveryDeadline>`;
-                if (additionalFields.orderDate) orderIN += `\n<orderDate>${escapeXml(additionalFields.orderDate as string)}</orderDate>`;
-                if (additionalFields.projectManagerMemo) orderIN += `\n<projectManagerMemo>${escapeXml(additionalFields.projectManagerMemo as string)}</projectManagerMemo>`;
-                if (additionalFields.projectName) orderIN += `\n<projectName>${escapeXml(additionalFields.projectName as string)}</projectName>`;
-                if (additionalFields.rate && additionalFields.rate !== 1.0) orderIN += `\n<rate>${additionalFields.rate}</rate>`;
-                if (additionalFields.referenceNumber) orderIN += `\n<referenceNumber>${escapeXml(additionalFields.referenceNumber as string)}</referenceNumber>`;
-                if (additionalFields.subject) orderIN += `\n<subject>${escapeXml(additionalFields.subject as string)}</subject>`;
-                
-                orderIN += `\n</OrderIN>`;
+                const orderIN = buildOrderINXml(customerID, projectManagerID, additionalFields, orderID);
                 
                 // Add enableNullOrEmptyValues field outside OrderIN (use UI value)
                 const enableValue = enableNullOrEmptyValues ? 1 : 0;
@@ -810,40 +926,10 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                 const dateTo = ctx.getNodeParameter('dateTo', itemIndex, '') as string;
                 const searchFilters = ctx.getNodeParameter('searchFilters', itemIndex, {}) as IDataObject;
                 
-                let searchFilter = `<SearchFilter>`;
-                
-                // Add mandatory language code
-                searchFilter += `\n<languageCode>${escapeXml(languageCode)}</languageCode>`;
-                
-                // Add mandatory time frame fields wrapped in <timeFrame> node
-                searchFilter += `\n<timeFrame>`;
-                if (dateFrom && dateFrom !== '') {
-                    const formattedDateFrom = new Date(dateFrom).toISOString().split('T')[0];
-                    if (formattedDateFrom) {
-                        searchFilter += `\n<dateFrom>${escapeXml(formattedDateFrom)}</dateFrom>`;
-                    }
-                }
-                if (dateTo && dateTo !== '') {
-                    const formattedDateTo = new Date(dateTo).toISOString().split('T')[0];
-                    if (formattedDateTo) {
-                        searchFilter += `\n<dateTo>${escapeXml(formattedDateTo)}</dateTo>`;
-                    }
-                }
-                searchFilter += `\n<dateRelation>${dateRelation}</dateRelation>`;
-                searchFilter += `\n</timeFrame>`;
-                
-                // Add optional search filters
-                if (searchFilters.customerID) searchFilter += `\n<customerID>${searchFilters.customerID}</customerID>`;
-                if (searchFilters.itemStatus) searchFilter += `\n<itemStatus>${searchFilters.itemStatus}</itemStatus>`;
-                if (searchFilters.projectDescription) searchFilter += `\n<projectDescription>${escapeXml(searchFilters.projectDescription as string)}</projectDescription>`;
-                if (searchFilters.projectName) searchFilter += `\n<projectName>${escapeXml(searchFilters.projectName as string)}</projectName>`;
-                if (searchFilters.projectType) searchFilter += `\n<projectType>${searchFilters.projectType}</projectType>`;
-                if (searchFilters.sourceLanguage) searchFilter += `\n<sourceLanguage>${escapeXml(searchFilters.sourceLanguage as string)}</sourceLanguage>`;
-                if (searchFilters.targetLanguage) searchFilter += `\n<targetLanguage>${escapeXml(searchFilters.targetLanguage as string)}</targetLanguage>`;
-                if (searchFilters.statusProjectFileArchiving) searchFilter += `\n<statusProjectFileArchiving>${searchFilters.statusProjectFileArchiving}</statusProjectFileArchiving>`;
-                
-                searchFilter += `\n</SearchFilter>`;
-                
+                const searchFilter = buildTimeFrameSearchFilterXml(
+                    languageCode, dateRelation, dateFrom, dateTo, searchFilters, ORDER_SEARCH_FILTER_FIELDS,
+                );
+
                 return `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`;
             }
             return null;
@@ -852,6 +938,59 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
     );
 }
 
+/**
+ * Finish Create Order from Template: add the language combinations, then copy the
+ * workflow jobs to every item the template created. The order already exists at
+ * this point, so a failing step reports the new order ID.
+ */
+async function setUpOrderFromTemplate(
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+    result: IDataObject,
+): Promise<IDataObject> {
+    const orderID = Number(result.value);
+    const templateID = ctx.getNodeParameter('templateID', itemIndex, 0) as number;
+    const languageCombinations = ctx.getNodeParameter('languageCombinations', itemIndex, {}) as IDataObject;
+    const workflowID = ctx.getNodeParameter('workflowID', itemIndex, '') as string | number;
+
+    const { DataOrder30MiscService } = await import('./dataOrder30.misc');
+    const { DataItem30CoreService } = await import('./dataItem30.core');
+    const { DataItem30MiscService } = await import('./dataItem30.misc');
+    const call = (svc: Service, op: string, params: IDataObject) =>
+        executeServiceOperation(svc, op, params, ctx, creds, baseUrl, timeoutMs, itemIndex);
+
+    const languageCombinationIDs: number[] = [];
+    const workflowItemIDs: number[] = [];
+    try {
+        const combinations = (languageCombinations.combination as IDataObject[] | undefined) ?? [];
+        for (const { sourceLanguage, targetLanguage } of combinations) {
+            if (!sourceLanguage || !targetLanguage) continue;
+            const r = await call(DataOrder30MiscService, 'addLanguageCombination', { sourceLanguage, targetLanguage, orderID });
+            if (r.value !== undefined) languageCombinationIDs.push(Number(r.value));
+        }
+
+        if (workflowID !== '' && workflowID !== 0) {
+            const itemsResult = await call(DataItem30CoreService, 'getAllItemObjects', { projectID: orderID, projectType: ProjectTypeIdByName.ORDER });
+            for (const item of (itemsResult.items as IDataObject[]) ?? []) {
+                const itemID = Number(item.itemID);
+                await call(DataItem30MiscService, 'copyJobsFromWorkflow', { projectType: ProjectTypeIdByName.ORDER, itemID, workflowID });
+                workflowItemIDs.push(itemID);
+            }
+        }
+    } catch (error) {
+        throw new NodeOperationError(
+            ctx.getNode(),
+            `Order ${orderID} was created from template ${templateID}, but setting it up failed: ${(error as Error).message}`,
+            { itemIndex },
+        );
+    }
+
+    return { ...result, orderID, templateID, languageCombinationIDs, workflowItemIDs };
+}
+
 /** ─ Service export ─ */
 export const DataOrder30CoreService: Service = {
     resource: RESOURCE,
@@ -863,6 +1002,23 @@ export const DataOrder30CoreService: Service = {
     extraProperties,
     async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
         const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+
+        // Composite operation: fetch the order, then walk items/jobs through the other services
+        if (operation === 'getProjectTree') {
+            const { getProjectTree } = await import('./dataOrder30.tree');
+            const orderID = ctx.getNodeParameter('orderID', itemIndex) as number;
+            const orderResult = await executeOperation(ctx, 'getOrderObject', { orderID }, config, itemIndex) as IDataObject;
+            const tree = await getProjectTree(ctx, creds, baseUrl, timeoutMs, itemIndex, orderID, orderResult.order as IDataObject);
+            return {
+                success: true,
+                resource: RESOURCE,
+                operation,
+                statusMessage: orderResult.statusMessage,
+                statusCode: orderResult.statusCode,
+                order: tree,
+            };
+        }
+
         const result = await executeStandardService(
             operation,
             ctx,
@@ -874,6 +1030,16 @@ export const DataOrder30CoreService: Service = {
             PARAM_ORDER,
             config,
         );
+
+        if (operation === 'search') {
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                executeOperation(ctx, 'getOrderObject', { orderID: id }, config, itemIndex),
+            );
+        }
+
+        if (operation === 'insert_byTemplate' && result.success) {
+            return await setUpOrderFromTemplate(ctx, creds, baseUrl, timeoutMs, itemIndex, result);
+        }
         
         // Handle extended object functionality
         if (operation === 'getOrderObject') {
@@ -906,7 +1072,7 @@ export const DataOrder30CoreService: Service = {
                         let extResult;
                         
                         // For getOrderObject, use the original context
-                        extResult = await DataOrder30MiscService.execute(extOp, ctx, creds, url, baseUrl, timeoutMs, itemIndex);
+                        extResult = await DataOrder30MiscService.execute(extOp, ctx, creds, url, baseUrl, timeoutMs, itemIndex) as IDataObject;
                         
                         // Handle different result types
                         if (extResult.success) {
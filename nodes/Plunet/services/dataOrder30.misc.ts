@@ -110,6 +110,19 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
         paramOrder: ['orderID'],
         active: true,
     },
+    addLanguageCombination: {
+        soapAction: 'addLanguageCombination',
+        endpoint: ENDPOINT,
+        uiName: 'Add Language Combination',
+        subtitleName: 'add language combination: order fields',
+        titleName: 'Add Language Combination',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a source/target language combination to the order',
+        returnType: 'Integer',
+        paramOrder: ['sourceLanguage', 'targetLanguage', 'orderID'],
+        active: true,
+    },
     getLinks: {
         soapAction: 'getLinks',
         endpoint: ENDPOINT,
@@ -570,6 +583,25 @@ const extraProperties: INodeProperties[] =
                     },
                 };
             }
+            if (p === 'sourceLanguage' || p === 'targetLanguage') {
+                return {
+                    displayName: p === 'sourceLanguage' ? 'Source Language' : 'Target Language',
+                    name: p,
+                    type: 'options',
+                    typeOptions: {
+                        loadOptionsMethod: 'getAvailableLanguages',
+                    },
+                    default: '',
+                    required: true,
+                    description: `${p === 'sourceLanguage' ? 'Source' : 'Target'} language of the combination`,
+                    displayOptions: {
+                        show: {
+                            resource: [RESOURCE],
+                            operation: [op],
+                        },
+                    },
+                };
+            }
             return createStringProperty(
                 p,
                 p,
@@ -792,6 +824,12 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                 return `<UUID>${escapeXml(sessionId)}</UUID>\n<projectCategory>${escapeXml(projectCategory)}</projectCategory>\n<systemLanguageCode>${escapeXml(systemLanguageCode)}</systemLanguageCode>\n<orderID>${orderID}</orderID>`;
             }
 
+            if (op === 'addLanguageCombination') {
+                const sourceLanguage = ctx.getNodeParameter('sourceLanguage', itemIndex, '') as string;
+                const targetLanguage = ctx.getNodeParameter('targetLanguage', itemIndex, '') as string;
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n<sourceLanguage>${escapeXml(sourceLanguage)}</sourceLanguage>\n<targetLanguage>${escapeXml(targetLanguage)}</targetLanguage>\n<orderID>${orderID}</orderID>`;
+            }
+
             if (op === 'setEN15038Requested') {
                 const isEN15038 = ctx.getNodeParameter('isEN15038', itemIndex, false) as boolean;
                 return `<UUID>${escapeXml(sessionId)}</UUID>\n<isEN15038>${isEN15038 ? 1 : 0}</isEN15038>\n<orderID>${orderID}</orderID>`;
@@ -0,0 +1,146 @@
+import { IExecuteFunctions, IDataObject, INodeProperties } from 'n8n-workflow';
+import type { Creds, Service } from '../core/types';
+import { executeServiceOperation } from '../core/service-utils';
+import { DataItem30CoreService } from './dataItem30.core';
+import { DataItem30PricesService } from './dataItem30.prices';
+import { DataJob30CoreService } from './dataJob30.core';
+import { DataJob30PricesService } from './dataJob30.prices';
+import { DataDocument30Service } from './dataDocument30';
+import { FolderTypeOptions } from '../enums/folder-types';
+import { ProjectTypeIdByName } from '../enums/project-type';
+
+/**
+ * "Get Project Tree": walks order → items → jobs and attaches price lines and file lists
+ * by calling the existing services, returning one nested document.
+ */
+
+const ORDER_PROJECT_TYPE = ProjectTypeIdByName.ORDER;
+
+type TreeDepth = 'order' | 'items' | 'jobs';
+type TreeCollection = 'itemPrices' | 'jobPrices' | 'files';
+
+/** Order-side folders and the level whose ID they use as MainID. */
+const FOLDER_LEVEL: Record<number, 'order' | 'item' | 'job'> = {
+    5: 'order', 6: 'order', 10: 'order', 12: 'order', 25: 'order',
+    8: 'item', 16: 'item', 17: 'item',
+    22: 'job', 23: 'job',
+};
+
+/** Parameter UI for the getProjectTree operation. */
+export function createProjectTreeProperties(resource: string, operation: string): INodeProperties[] {
+    const show = { resource: [resource], operation: [operation] };
+    return [
+        {
+            displayName: 'Depth',
+            name: 'treeDepth',
+            type: 'options',
+            options: [
+                { name: 'Order Only', value: 'order' },
+                { name: 'Order and Items', value: 'items' },
+                { name: 'Order, Items and Jobs', value: 'jobs' },
+            ],
+            default: 'jobs',
+            description: 'How far down the project tree to walk',
+            displayOptions: { show },
+        },
+        {
+            displayName: 'Include',
+            name: 'treeInclude',
+            type: 'multiOptions',
+            options: [
+                { name: 'Item Price Lines', value: 'itemPrices' },
+                { name: 'Job Price Lines', value: 'jobPrices' },
+                { name: 'File Lists', value: 'files' },
+            ],
+            default: ['itemPrices', 'jobPrices'],
+            description: 'Sub-collections to attach at each level',
+            displayOptions: { show },
+        },
+        {
+            displayName: 'File Folders',
+            name: 'treeFileFolders',
+            type: 'multiOptions',
+            options: FolderTypeOptions.filter((o) => FOLDER_LEVEL[o.value as number] !== undefined),
+            default: [5, 6, 10, 12],
+            description: 'Folders listed at the order, item or job level they belong to',
+            displayOptions: { show: { ...show, treeInclude: ['files'] } },
+        },
+    ];
+}
+
+/**
+ * Build the nested project tree for an order.
+ * `order` is the already-fetched getOrderObject payload.
+ */
+export async function getProjectTree(
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+    orderID: number,
+    order: IDataObject,
+): Promise<IDataObject> {
+    const depth = ctx.getNodeParameter('treeDepth', itemIndex, 'jobs') as TreeDepth;
+    const include = ctx.getNodeParameter('treeInclude', itemIndex, []) as TreeCollection[];
+    const folders = include.includes('files')
+        ? (ctx.getNodeParameter('treeFileFolders', itemIndex, []) as number[])
+        : [];
+
+    const call = (svc: Service, operation: string, params: IDataObject) =>
+        executeServiceOperation(svc, operation, params, ctx, creds, baseUrl, timeoutMs, itemIndex);
+
+    // Missing folders are reported per folder instead of failing the whole tree
+    const listFiles = async (level: 'order' | 'item' | 'job', mainID: number) => {
+        const out: IDataObject[] = [];
+        for (const folderType of folders.filter((f) => FOLDER_LEVEL[f] === level)) {
+            try {
+                const r = await call(DataDocument30Service, 'getFileList', { folderType, mainID });
+                out.push({ folderType, files: (r.files as string[]) ?? [] });
+            } catch (error) {
+                out.push({ folderType, files: [], error: (error as Error).message });
+            }
+        }
+        return out;
+    };
+
+    const tree: IDataObject = { ...order };
+    if (folders.length) tree.files = await listFiles('order', orderID);
+    if (depth === 'order') return tree;
+
+    const itemsResult = await call(DataItem30CoreService, 'getAllItemObjects', {
+        projectID: orderID,
+        projectType: ORDER_PROJECT_TYPE,
+    });
+    const items = (itemsResult.items as IDataObject[]) ?? [];
+
+    for (const item of items) {
+        const itemID = Number(item.itemID);
+
+        if (include.includes('itemPrices')) {
+            const r = await call(DataItem30PricesService, 'getPriceLine_List', { itemID, projectType: ORDER_PROJECT_TYPE });
+            item.priceLines = r.priceLines ?? [];
+        }
+        if (folders.length) item.files = await listFiles('item', itemID);
+        if (depth !== 'jobs') continue;
+
+        const jobsResult = await call(DataJob30CoreService, 'getJobListOfItem_ForView', {
+            itemID,
+            projectType: ORDER_PROJECT_TYPE,
+        });
+        const jobs = (jobsResult.jobs as IDataObject[]) ?? [];
+
+        for (const job of jobs) {
+            const jobID = Number(job.JobID);
+            if (include.includes('jobPrices')) {
+                const r = await call(DataJob30PricesService, 'getPriceLine_List', { jobID, projectType: ORDER_PROJECT_TYPE });
+                job.priceLines = r.priceLines ?? [];
+            }
+            if (folders.length) job.files = await listFiles('job', jobID);
+        }
+        item.jobs = jobs;
+    }
+
+    tree.items = items;
+    return tree;
+}
@@ -0,0 +1,472 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseIntegerResult, parseIntegerArrayResult, parseDoubleResult, parseVoidResult,
+} from '../core/xml';
+import { parseInvoiceResult, parseInvoiceItemListResult } from '../core/parsers/invoice';
+import { InvoiceStatusOptions, idToInvoiceStatusName } from '../enums/invoice-status';
+import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-type';
+import { idToTaxTypeName } from '../enums/tax-type';
+import { SearchScopeOptions } from '../enums/search-scope';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+    createSearchExpansionProperties,
+    expandSearchResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataOutgoingInvoice30';
+const ENDPOINT = 'DataOutgoingInvoice30';
+const RESOURCE_DISPLAY_NAME = 'Outgoing Invoice';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getInvoice: {
+        soapAction: 'getInvoiceObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Invoice',
+        subtitleName: 'get: outgoing invoice',
+        titleName: 'Get an Invoice',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve an invoice with its items and net/gross/tax totals',
+        returnType: 'Invoice',
+        paramOrder: ['invoiceID'],
+        active: true,
+    },
+    getInvoiceItems: {
+        soapAction: 'getInvoiceItemList',
+        endpoint: ENDPOINT,
+        uiName: 'Get Invoice Items',
+        subtitleName: 'get items: outgoing invoice',
+        titleName: 'Get Invoice Items',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the items of an invoice',
+        returnType: 'InvoiceItemList',
+        paramOrder: ['invoiceID'],
+        active: true,
+    },
+    searchInvoices: {
+        soapAction: 'search',
+        endpoint: ENDPOINT,
+        uiName: 'Search Invoices',
+        subtitleName: 'search: outgoing invoices',
+        titleName: 'Search Invoices',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Search for invoices by date range and status',
+        returnType: 'IntegerArray',
+        paramOrder: ['languageCode', 'dateRelation', 'dateFrom', 'dateTo', 'searchFilters'],
+        active: true,
+    },
+    getStatus: {
+        soapAction: 'getStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Get Status',
+        subtitleName: 'get status: outgoing invoice',
+        titleName: 'Get Invoice Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the status of the invoice',
+        returnType: 'Integer',
+        paramOrder: ['invoiceID'],
+        active: true,
+    },
+    setStatus: {
+        soapAction: 'setStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Set Status',
+        subtitleName: 'set status: outgoing invoice',
+        titleName: 'Set Invoice Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the status of the invoice',
+        returnType: 'Void',
+        paramOrder: ['status', 'invoiceID'],
+        active: true,
+    },
+    getNet: {
+        soapAction: 'getNet',
+        endpoint: ENDPOINT,
+        uiName: 'Get Net Amount',
+        subtitleName: 'get net: outgoing invoice',
+        titleName: 'Get Net Amount',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the net amount of the invoice',
+        returnType: 'Double',
+        paramOrder: ['invoiceID', 'currencyType'],
+        active: true,
+    },
+    getGross: {
+        soapAction: 'getGross',
+        endpoint: ENDPOINT,
+        uiName: 'Get Gross Amount',
+        subtitleName: 'get gross: outgoing invoice',
+        titleName: 'Get Gross Amount',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the gross amount of the invoice',
+        returnType: 'Double',
+        paramOrder: ['invoiceID', 'currencyType'],
+        active: true,
+    },
+    getTax: {
+        soapAction: 'getTax',
+        endpoint: ENDPOINT,
+        uiName: 'Get Tax Amount',
+        subtitleName: 'get tax: outgoing invoice',
+        titleName: 'Get Tax Amount',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the tax amount of the invoice',
+        returnType: 'Double',
+        paramOrder: ['invoiceID', 'currencyType'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'IntegerArray'|'Double'|'Invoice'|'InvoiceItemList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+/** Amount operations and the key they fill in the invoice `totals`. */
+const AMOUNT_FIELD: Record<string, 'net' | 'gross' | 'tax'> = {
+    getNet: 'net',
+    getGross: 'gross',
+    getTax: 'tax',
+};
+
+/** Optional SearchFilter_Invoice fields besides language and time frame. */
+const INVOICE_SEARCH_FILTER_OPTIONS: INodeProperties[] = [
+    { displayName: 'Customer ID', name: 'customerID', type: 'number', default: 0, description: 'Only return invoices of this customer' },
+    { displayName: 'Invoice Status', name: 'invoiceStatus', type: 'options', options: InvoiceStatusOptions, default: 2, description: 'Only return invoices with this status' },
+];
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Invoice ID',
+        name: 'invoiceID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the invoice',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getInvoiceObject', 'getInvoiceItemList', 'getStatus', 'setStatus', 'getNet', 'getGross', 'getTax'],
+            },
+        },
+    },
+    {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: InvoiceStatusOptions,
+        default: 2,
+        required: true,
+        description: 'New status of the invoice',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['setStatus'],
+            },
+        },
+    },
+    {
+        displayName: 'Currency Type',
+        name: 'currencyType',
+        type: 'options',
+        options: CurrencyTypeOptions,  // PROJECTCURRENCY(1), HOMECURRENCY(2)
+        default: 1,
+        description: 'Currency the amounts are returned in',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getInvoiceObject', 'getNet', 'getGross', 'getTax'],
+            },
+        },
+    },
+    // Search Invoices properties
+    {
+        displayName: 'Language Code',
+        name: 'languageCode',
+        type: 'string',
+        default: 'EN',
+        required: true,
+        description: 'Language code for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date Relation',
+        name: 'dateRelation',
+        type: 'options',
+        options: SearchScopeOptions,
+        default: 1,
+        required: true,
+        description: 'Date relation scope for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date From',
+        name: 'dateFrom',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'Start date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date To',
+        name: 'dateTo',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'End date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Search Filters',
+        name: 'searchFilters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        description: 'Optional search filters',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+        options: INVOICE_SEARCH_FILTER_OPTIONS,
+    },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+    {
+        displayName: 'Currency Type',
+        name: 'currencyType',
+        type: 'options',
+        options: CurrencyTypeOptions,
+        default: 1,
+        description: 'Currency the totals of full invoice objects are returned in',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['search'], returnFullObjects: [true] } },
+    },
+];
+
+/**
+ * Build the <SearchFilter_Invoice> block for DataOutgoingInvoice30.search.
+ */
+function buildInvoiceSearchFilterXml(
+    languageCode: string,
+    dateRelation: number,
+    dateFrom: string,
+    dateTo: string,
+    searchFilters: IDataObject,
+): string {
+    let searchFilter = `<SearchFilter_Invoice>`;
+
+    searchFilter += `\n<languageCode>${escapeXml(languageCode)}</languageCode>`;
+
+    searchFilter += `\n<timeFrame>`;
+    const formattedDateFrom = dateFrom ? new Date(dateFrom).toISOString().split('T')[0] : '';
+    const formattedDateTo = dateTo ? new Date(dateTo).toISOString().split('T')[0] : '';
+    if (formattedDateFrom) searchFilter += `\n<dateFrom>${escapeXml(formattedDateFrom)}</dateFrom>`;
+    if (formattedDateTo) searchFilter += `\n<dateTo>${escapeXml(formattedDateTo)}</dateTo>`;
+    searchFilter += `\n<dateRelation>${dateRelation}</dateRelation>`;
+    searchFilter += `\n</timeFrame>`;
+
+    if (searchFilters.customerID) searchFilter += `\n<customerID>${searchFilters.customerID}</customerID>`;
+    if (searchFilters.invoiceStatus) searchFilter += `\n<invoiceStatus>${searchFilters.invoiceStatus}</invoiceStatus>`;
+
+    searchFilter += `\n</SearchFilter_Invoice>`;
+    return searchFilter;
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'Invoice': {
+                    const r = parseInvoiceResult(xml);
+                    const invoice = r.invoice || {};
+
+                    // Add status label if available
+                    if (invoice.status !== undefined) {
+                        invoice.statusLabel = idToInvoiceStatusName(invoice.status);
+                    }
+
+                    payload = { invoice, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'InvoiceItemList': {
+                    const r = parseInvoiceItemListResult(xml);
+                    const items = r.items.map((item) => ({
+                        ...item,
+                        taxTypeLabel: idToTaxTypeName(item.taxType),
+                    }));
+                    payload = { items, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    if (op === 'getStatus') {
+                        const statusId = r.value ?? null;
+                        payload = {
+                            statusId,
+                            statusName: idToInvoiceStatusName(statusId),
+                            statusMessage: r.statusMessage,
+                            statusCode: r.statusCode,
+                        };
+                    } else {
+                        payload = { value: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    }
+                    break;
+                }
+                case 'IntegerArray': {
+                    const r = parseIntegerArrayResult(xml);
+                    payload = { data: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Double': {
+                    const r = parseDoubleResult(xml);
+                    payload = { amount: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'search') {
+                const languageCode = ctx.getNodeParameter('languageCode', itemIndex, 'EN') as string;
+                const dateRelation = ctx.getNodeParameter('dateRelation', itemIndex, 1) as number;
+                const dateFrom = ctx.getNodeParameter('dateFrom', itemIndex, '') as string;
+                const dateTo = ctx.getNodeParameter('dateTo', itemIndex, '') as string;
+                const searchFilters = ctx.getNodeParameter('searchFilters', itemIndex, {}) as IDataObject;
+
+                const searchFilter = buildInvoiceSearchFilterXml(languageCode, dateRelation, dateFrom, dateTo, searchFilters);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** Invoice object plus its items and net/gross/tax totals in one payload. */
+async function getInvoiceWithDetails(
+    ctx: IExecuteFunctions,
+    config: ExecuteConfig,
+    itemIndex: number,
+    invoiceID: number,
+    currencyType: number,
+): Promise<IDataObject> {
+    const result = await executeOperation(ctx, 'getInvoiceObject', { invoiceID }, config, itemIndex) as IDataObject;
+    const invoice = (result.invoice as IDataObject) ?? {};
+
+    const itemsResult = await executeOperation(ctx, 'getInvoiceItemList', { invoiceID }, config, itemIndex) as IDataObject;
+    invoice.items = itemsResult.items ?? [];
+
+    const totals: IDataObject = { currencyType, currencyTypeLabel: idToCurrencyTypeName(currencyType) };
+    for (const [op, field] of Object.entries(AMOUNT_FIELD)) {
+        const r = await executeOperation(ctx, op, { invoiceID, currencyType }, config, itemIndex) as IDataObject;
+        totals[field] = r.amount;
+    }
+    invoice.totals = totals;
+
+    return { ...result, invoice };
+}
+
+/** ─ Service export ─ */
+export const DataOutgoingInvoice30Service: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Outgoing invoices (DataOutgoingInvoice30)',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+
+        if (operation === 'getInvoiceObject') {
+            const invoiceID = ctx.getNodeParameter('invoiceID', itemIndex) as number;
+            const currencyType = ctx.getNodeParameter('currencyType', itemIndex, 1) as number;
+            return await getInvoiceWithDetails(ctx, config, itemIndex, invoiceID, currencyType);
+        }
+
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        if (operation === 'search') {
+            const currencyType = ctx.getNodeParameter('currencyType', itemIndex, 1) as number;
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                getInvoiceWithDetails(ctx, config, itemIndex, id, currencyType),
+            );
+        }
+        return result;
+    },
+};
@@ -0,0 +1,488 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseIntegerResult, parseIntegerArrayResult, parseDoubleResult, parseDateResult, parseVoidResult,
+} from '../core/xml';
+import { parsePayableResult, parsePayableItemListResult } from '../core/parsers/payable';
+import { PayableStatusOptions, idToPayableStatusName } from '../enums/payable-status';
+import { CurrencyTypeOptions, idToCurrencyTypeName } from '../enums/currency-type';
+import { idToTaxTypeName } from '../enums/tax-type';
+import { SearchScopeOptions } from '../enums/search-scope';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+    createSearchExpansionProperties,
+    expandSearchResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataPayable30';
+const ENDPOINT = 'DataPayable30';
+const RESOURCE_DISPLAY_NAME = 'Payable';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getPayable: {
+        soapAction: 'getPayableObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Payable',
+        subtitleName: 'get: payable',
+        titleName: 'Get a Payable',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve a payable with its items and net/gross totals',
+        returnType: 'Payable',
+        paramOrder: ['payableID'],
+        active: true,
+    },
+    getPayableItems: {
+        soapAction: 'getPayableItemList',
+        endpoint: ENDPOINT,
+        uiName: 'Get Payable Items',
+        subtitleName: 'get items: payable',
+        titleName: 'Get Payable Items',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the items of a payable',
+        returnType: 'PayableItemList',
+        paramOrder: ['payableID'],
+        active: true,
+    },
+    searchPayables: {
+        soapAction: 'search',
+        endpoint: ENDPOINT,
+        uiName: 'Search Payables',
+        subtitleName: 'search: payables',
+        titleName: 'Search Payables',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Search for payables by resource, date range and status',
+        returnType: 'IntegerArray',
+        paramOrder: ['dateRelation', 'dateFrom', 'dateTo', 'searchFilters'],
+        active: true,
+    },
+    getStatus: {
+        soapAction: 'getStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Get Status',
+        subtitleName: 'get status: payable',
+        titleName: 'Get Payable Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the status of the payable',
+        returnType: 'Integer',
+        paramOrder: ['payableID'],
+        active: true,
+    },
+    setStatus: {
+        soapAction: 'setStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Set Status',
+        subtitleName: 'set status: payable',
+        titleName: 'Set Payable Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the status of the payable (e.g. checked, accepted, paid)',
+        returnType: 'Void',
+        paramOrder: ['status', 'payableID'],
+        active: true,
+    },
+    getPaidDate: {
+        soapAction: 'getPaidDate',
+        endpoint: ENDPOINT,
+        uiName: 'Get Paid Date',
+        subtitleName: 'get paid date: payable',
+        titleName: 'Get Paid Date',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the payment date of the payable',
+        returnType: 'Date',
+        paramOrder: ['payableID'],
+        active: true,
+    },
+    setPaidDate: {
+        soapAction: 'setPaidDate',
+        endpoint: ENDPOINT,
+        uiName: 'Set Paid Date',
+        subtitleName: 'set paid date: payable',
+        titleName: 'Set Paid Date',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the payment date of the payable',
+        returnType: 'Void',
+        paramOrder: ['paidDate', 'payableID'],
+        active: true,
+    },
+    getTotalNetAmount: {
+        soapAction: 'getTotalNetAmount',
+        endpoint: ENDPOINT,
+        uiName: 'Get Net Amount',
+        subtitleName: 'get net: payable',
+        titleName: 'Get Net Amount',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the total net amount of the payable',
+        returnType: 'Double',
+        paramOrder: ['payableID', 'currencyType'],
+        active: true,
+    },
+    getTotalGrossAmount: {
+        soapAction: 'getTotalGrossAmount',
+        endpoint: ENDPOINT,
+        uiName: 'Get Gross Amount',
+        subtitleName: 'get gross: payable',
+        titleName: 'Get Gross Amount',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the total gross amount of the payable',
+        returnType: 'Double',
+        paramOrder: ['payableID', 'currencyType'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'IntegerArray'|'Double'|'Date'|'Payable'|'PayableItemList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+/** Amount operations and the key they fill in the payable `totals`. */
+const AMOUNT_FIELD: Record<string, 'net' | 'gross'> = {
+    getTotalNetAmount: 'net',
+    getTotalGrossAmount: 'gross',
+};
+
+/** Optional SearchFilter_Payable fields besides the time frame. */
+const PAYABLE_SEARCH_FILTER_OPTIONS: INodeProperties[] = [
+    { displayName: 'Resource ID', name: 'resourceID', type: 'number', default: 0, description: 'Only return payables of this resource' },
+    { displayName: 'Status', name: 'status', type: 'options', options: PayableStatusOptions, default: 1, description: 'Only return payables with this status' },
+];
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Payable ID',
+        name: 'payableID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the payable (see Job Fields → Get Payable ID)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: [
+                    'getPayableObject', 'getPayableItemList', 'getStatus', 'setStatus',
+                    'getPaidDate', 'setPaidDate', 'getTotalNetAmount', 'getTotalGrossAmount',
+                ],
+            },
+        },
+    },
+    {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: PayableStatusOptions,
+        default: 2,
+        required: true,
+        description: 'New status of the payable',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['setStatus'],
+            },
+        },
+    },
+    {
+        displayName: 'Paid Date',
+        name: 'paidDate',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'Date the payable was paid',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['setPaidDate'],
+            },
+        },
+    },
+    {
+        displayName: 'Currency Type',
+        name: 'currencyType',
+        type: 'options',
+        options: CurrencyTypeOptions,  // PROJECTCURRENCY(1), HOMECURRENCY(2)
+        default: 1,
+        description: 'Currency the amounts are returned in',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getPayableObject', 'getTotalNetAmount', 'getTotalGrossAmount'],
+            },
+        },
+    },
+    // Search Payables properties
+    {
+        displayName: 'Date Relation',
+        name: 'dateRelation',
+        type: 'options',
+        options: SearchScopeOptions,
+        default: 1,
+        required: true,
+        description: 'Date relation scope for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date From',
+        name: 'dateFrom',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'Start date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date To',
+        name: 'dateTo',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'End date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Search Filters',
+        name: 'searchFilters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        description: 'Optional search filters',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+        options: PAYABLE_SEARCH_FILTER_OPTIONS,
+    },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+    {
+        displayName: 'Currency Type',
+        name: 'currencyType',
+        type: 'options',
+        options: CurrencyTypeOptions,
+        default: 1,
+        description: 'Currency the totals of full payable objects are returned in',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['search'], returnFullObjects: [true] } },
+    },
+];
+
+/**
+ * Build the <SearchFilter_Payable> block for DataPayable30.search.
+ */
+function buildPayableSearchFilterXml(
+    dateRelation: number,
+    dateFrom: string,
+    dateTo: string,
+    searchFilters: IDataObject,
+): string {
+    let searchFilter = `<SearchFilter_Payable>`;
+
+    searchFilter += `\n<timeFrame>`;
+    const formattedDateFrom = dateFrom ? new Date(dateFrom).toISOString().split('T')[0] : '';
+    const formattedDateTo = dateTo ? new Date(dateTo).toISOString().split('T')[0] : '';
+    if (formattedDateFrom) searchFilter += `\n<dateFrom>${escapeXml(formattedDateFrom)}</dateFrom>`;
+    if (formattedDateTo) searchFilter += `\n<dateTo>${escapeXml(formattedDateTo)}</dateTo>`;
+    searchFilter += `\n<dateRelation>${dateRelation}</dateRelation>`;
+    searchFilter += `\n</timeFrame>`;
+
+    if (searchFilters.resourceID) searchFilter += `\n<resourceID>${searchFilters.resourceID}</resourceID>`;
+    if (searchFilters.status) searchFilter += `\n<status>${searchFilters.status}</status>`;
+
+    searchFilter += `\n</SearchFilter_Payable>`;
+    return searchFilter;
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'Payable': {
+                    const r = parsePayableResult(xml);
+                    const payable = r.payable || {};
+
+                    // Add status label if available
+                    if (payable.status !== undefined) {
+                        payable.statusLabel = idToPayableStatusName(payable.status);
+                    }
+
+                    payload = { payable, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'PayableItemList': {
+                    const r = parsePayableItemListResult(xml);
+                    const items = r.items.map((item) => ({
+                        ...item,
+                        taxTypeLabel: idToTaxTypeName(item.taxType),
+                    }));
+                    payload = { items, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    if (op === 'getStatus') {
+                        const statusId = r.value ?? null;
+                        payload = {
+                            statusId,
+                            statusName: idToPayableStatusName(statusId),
+                            statusMessage: r.statusMessage,
+                            statusCode: r.statusCode,
+                        };
+                    } else {
+                        payload = { value: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    }
+                    break;
+                }
+                case 'IntegerArray': {
+                    const r = parseIntegerArrayResult(xml);
+                    payload = { data: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Double': {
+                    const r = parseDoubleResult(xml);
+                    payload = { amount: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Date': {
+                    const r = parseDateResult(xml);
+                    payload = { date: r.date, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'search') {
+                const dateRelation = ctx.getNodeParameter('dateRelation', itemIndex, 1) as number;
+                const dateFrom = ctx.getNodeParameter('dateFrom', itemIndex, '') as string;
+                const dateTo = ctx.getNodeParameter('dateTo', itemIndex, '') as string;
+                const searchFilters = ctx.getNodeParameter('searchFilters', itemIndex, {}) as IDataObject;
+
+                const searchFilter = buildPayableSearchFilterXml(dateRelation, dateFrom, dateTo, searchFilters);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** Payable object plus its items and net/gross totals in one payload. */
+async function getPayableWithDetails(
+    ctx: IExecuteFunctions,
+    config: ExecuteConfig,
+    itemIndex: number,
+    payableID: number,
+    currencyType: number,
+): Promise<IDataObject> {
+    const result = await executeOperation(ctx, 'getPayableObject', { payableID }, config, itemIndex) as IDataObject;
+    const payable = (result.payable as IDataObject) ?? {};
+
+    const itemsResult = await executeOperation(ctx, 'getPayableItemList', { payableID }, config, itemIndex) as IDataObject;
+    payable.items = itemsResult.items ?? [];
+
+    const totals: IDataObject = { currencyType, currencyTypeLabel: idToCurrencyTypeName(currencyType) };
+    for (const [op, field] of Object.entries(AMOUNT_FIELD)) {
+        const r = await executeOperation(ctx, op, { payableID, currencyType }, config, itemIndex) as IDataObject;
+        totals[field] = r.amount;
+    }
+    payable.totals = totals;
+
+    return { ...result, payable };
+}
+
+/** ─ Service export ─ */
+export const DataPayable30Service: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Payables / incoming invoices (DataPayable30)',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+
+        if (operation === 'getPayableObject') {
+            const payableID = ctx.getNodeParameter('payableID', itemIndex) as number;
+            const currencyType = ctx.getNodeParameter('currencyType', itemIndex, 1) as number;
+            return await getPayableWithDetails(ctx, config, itemIndex, payableID, currencyType);
+        }
+
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        if (operation === 'search') {
+            const currencyType = ctx.getNodeParameter('currencyType', itemIndex, 1) as number;
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                getPayableWithDetails(ctx, config, itemIndex, id, currencyType),
+            );
+        }
+        return result;
+    },
+};
@@ -0,0 +1,470 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseIntegerResult, parseIntegerArrayResult, parseVoidResult,
+} from '../core/xml';
+import { parseQuoteResult } from '../core/parsers/quote';
+import { QuoteStatusOptions, idToQuoteStatusName } from '../enums/quote-status';
+import { SearchScopeOptions } from '../enums/search-scope';
+import { ProjectClassTypeOptions } from '../enums/project-class-type';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+    buildTimeFrameSearchFilterXml,
+    createSearchExpansionProperties,
+    expandSearchResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataQuote30Core';
+const ENDPOINT = 'DataQuote30';
+const RESOURCE_DISPLAY_NAME = 'Quote';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getQuote: {
+        soapAction: 'getQuoteObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Quote',
+        subtitleName: 'get: quote',
+        titleName: 'Get a Quote',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve a single quote by ID',
+        returnType: 'Quote',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    insertQuote: {
+        soapAction: 'insert2',
+        endpoint: ENDPOINT,
+        uiName: 'Create Quote',
+        subtitleName: 'insert: quote',
+        titleName: 'Create a Quote',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Create a new quote',
+        returnType: 'Integer',
+        paramOrder: ['customerID', 'projectManagerID'],
+        active: true,
+    },
+    updateQuote: {
+        soapAction: 'update',
+        endpoint: ENDPOINT,
+        uiName: 'Update Quote',
+        subtitleName: 'update: quote',
+        titleName: 'Update a Quote',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Update an existing quote',
+        returnType: 'Void',
+        paramOrder: ['quoteID', 'enableNullOrEmptyValues'],
+        active: true,
+    },
+    deleteQuote: {
+        soapAction: 'delete',
+        endpoint: ENDPOINT,
+        uiName: 'Delete Quote',
+        subtitleName: 'delete: quote',
+        titleName: 'Delete a Quote',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Delete a quote by ID',
+        returnType: 'Void',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    searchQuotes: {
+        soapAction: 'search',
+        endpoint: ENDPOINT,
+        uiName: 'Search Quotes',
+        subtitleName: 'search: quotes',
+        titleName: 'Search Quotes',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Search for quotes based on various criteria',
+        returnType: 'IntegerArray',
+        paramOrder: ['languageCode', 'dateRelation', 'dateFrom', 'dateTo', 'searchFilters'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'IntegerArray'|'Quote';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+/** Optional QuoteIN fields (insert2 + update). */
+const QUOTE_FIELD_OPTIONS: INodeProperties[] = [
+    { displayName: 'Creation Date', name: 'creationDate', type: 'dateTime', default: '', description: 'Creation date of the quote' },
+    { displayName: 'Currency', name: 'currency', type: 'string', default: '', description: 'Currency for the quote' },
+    { displayName: 'Customer Contact ID', name: 'customerContactID', type: 'number', default: 0, description: 'Customer contact ID' },
+    { displayName: 'Project Manager Memo', name: 'projectManagerMemo', type: 'string', default: '', description: 'Project manager memo' },
+    { displayName: 'Project Name', name: 'projectName', type: 'string', default: '', description: 'Project name' },
+    { displayName: 'Rate', name: 'rate', type: 'number', default: 1.0, typeOptions: { numberPrecision: 4 }, description: 'Exchange rate' },
+    { displayName: 'Reference Number', name: 'referenceNumber', type: 'string', default: '', description: 'Reference number' },
+    { displayName: 'Status', name: 'status', type: 'options', options: [{ name: 'Please select...', value: '' }, ...QuoteStatusOptions], default: '', description: 'Quote status' },
+    { displayName: 'Subject', name: 'subject', type: 'string', default: '', description: 'Subject of the quote' },
+];
+
+/** Optional SearchFilter fields for quote searches. */
+const QUOTE_SEARCH_FILTER_OPTIONS: INodeProperties[] = [
+    {
+        displayName: 'Customer ID',
+        name: 'customerID',
+        type: 'number',
+        default: 0,
+        description: 'Filter by customer ID',
+    },
+    {
+        displayName: 'Project Description',
+        name: 'projectDescription',
+        type: 'string',
+        default: '',
+        description: 'Filter by project description',
+    },
+    {
+        displayName: 'Project Name',
+        name: 'projectName',
+        type: 'string',
+        default: '',
+        description: 'Filter by project name',
+    },
+    {
+        displayName: 'Project Type',
+        name: 'projectType',
+        type: 'options',
+        options: ProjectClassTypeOptions,
+        default: 0,
+        description: 'Filter by project type',
+    },
+    {
+        displayName: 'Quote Status',
+        name: 'quoteStatus',
+        type: 'options',
+        options: QuoteStatusOptions,
+        default: 1,
+        description: 'Filter by quote status',
+    },
+    {
+        displayName: 'Source Language',
+        name: 'sourceLanguage',
+        type: 'string',
+        default: '',
+        description: 'Filter by source language',
+    },
+    {
+        displayName: 'Target Language',
+        name: 'targetLanguage',
+        type: 'string',
+        default: '',
+        description: 'Filter by target language',
+    },
+];
+
+/** SearchFilter tags in the order they are sent. */
+const QUOTE_SEARCH_FILTER_FIELDS = QUOTE_SEARCH_FILTER_OPTIONS.map((o) => o.name);
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Quote ID',
+        name: 'quoteID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the quote',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['getQuoteObject', 'update', 'delete'],
+            },
+        },
+    },
+    {
+        displayName: 'Customer ID',
+        name: 'customerID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the customer (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+    },
+    {
+        displayName: 'Project Manager ID',
+        name: 'projectManagerID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the project manager (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+    },
+    {
+        displayName: 'Enable Null or Empty Values',
+        name: 'enableNullOrEmptyValues',
+        type: 'boolean',
+        default: false,
+        description: 'If enabled, empty inputs overwrite existing values in Plunet. If disabled, empty inputs are ignored.',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['update'],
+            },
+        },
+    },
+    {
+        displayName: 'Additional Fields',
+        name: 'additionalFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+        options: QUOTE_FIELD_OPTIONS,
+    },
+    {
+        displayName: 'Update Fields',
+        name: 'additionalFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['update'],
+            },
+        },
+        options: [
+            { displayName: 'Customer ID', name: 'customerID', type: 'number', default: 0, description: 'Customer ID' },
+            { displayName: 'Project Manager ID', name: 'projectManagerID', type: 'number', default: 0, description: 'Project manager ID' },
+            ...QUOTE_FIELD_OPTIONS,
+        ],
+    },
+    // Search Quotes properties (same SearchFilter as orders)
+    {
+        displayName: 'Language Code',
+        name: 'languageCode',
+        type: 'string',
+        default: 'EN',
+        required: true,
+        description: 'Language code for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date Relation',
+        name: 'dateRelation',
+        type: 'options',
+        options: SearchScopeOptions,
+        default: 1,
+        required: true,
+        description: 'Date relation scope for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date From',
+        name: 'dateFrom',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'Start date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date To',
+        name: 'dateTo',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'End date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Search Filters',
+        name: 'searchFilters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        description: 'Optional search filters',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+        options: QUOTE_SEARCH_FILTER_OPTIONS,
+    },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+];
+
+/** Build <QuoteIN> from the fixed IDs and the selected collection fields. */
+function buildQuoteINXml(fixed: IDataObject, additionalFields: IDataObject): string {
+    const fields: IDataObject = { ...additionalFields, ...fixed };
+    let quoteIN = `<QuoteIN>`;
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === '' || value === null || value === undefined) continue;
+        if (key === 'rate' && value === 1.0) continue;
+        quoteIN += `\n<${key}>${escapeXml(String(value))}</${key}>`;
+    }
+    quoteIN += `\n</QuoteIN>`;
+    return quoteIN;
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'Quote': {
+                    const r = parseQuoteResult(xml);
+                    const quote = r.quote || {};
+
+                    // Add status label if available
+                    if (quote.status !== undefined) {
+                        quote.statusLabel = idToQuoteStatusName(quote.status);
+                    }
+
+                    payload = { quote, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    payload = { value: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'IntegerArray': {
+                    const r = parseIntegerArrayResult(xml);
+                    payload = { data: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insert2') {
+                const customerID = ctx.getNodeParameter('customerID', itemIndex, 0) as number;
+                const projectManagerID = ctx.getNodeParameter('projectManagerID', itemIndex, 0) as number;
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const quoteIN = buildQuoteINXml({ customerID, projectManagerID }, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${quoteIN}`;
+            }
+            if (op === 'update') {
+                const quoteID = ctx.getNodeParameter('quoteID', itemIndex, 0) as number;
+                const enableNullOrEmptyValues = ctx.getNodeParameter('enableNullOrEmptyValues', itemIndex, false) as boolean;
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const quoteIN = buildQuoteINXml({ quoteID }, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${quoteIN}\n<enableNullOrEmptyValues>${enableNullOrEmptyValues ? 1 : 0}</enableNullOrEmptyValues>`;
+            }
+            if (op === 'search') {
+                const languageCode = ctx.getNodeParameter('languageCode', itemIndex, 'EN') as string;
+                const dateRelation = ctx.getNodeParameter('dateRelation', itemIndex, 1) as number;
+                const dateFrom = ctx.getNodeParameter('dateFrom', itemIndex, '') as string;
+                const dateTo = ctx.getNodeParameter('dateTo', itemIndex, '') as string;
+                const searchFilters = ctx.getNodeParameter('searchFilters', itemIndex, {}) as IDataObject;
+
+                const searchFilter = buildTimeFrameSearchFilterXml(
+                    languageCode, dateRelation, dateFrom, dateTo, searchFilters, QUOTE_SEARCH_FILTER_FIELDS,
+                );
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataQuote30CoreService: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Core operations for DataQuote30',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        if (operation === 'search') {
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                executeOperation(ctx, 'getQuoteObject', { quoteID: id }, config, itemIndex),
+            );
+        }
+        return result;
+    },
+};
@@ -0,0 +1,323 @@
+import {
+    IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseStringResult, parseIntegerResult, parseVoidResult,
+} from '../core/xml';
+import { QuoteStatusOptions, idToQuoteStatusName } from '../enums/quote-status';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    executeServiceOperation,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+} from '../core/service-utils';
+import { DataItem30CoreService } from './dataItem30.core';
+import { ProjectTypeIdByName } from '../enums/project-type';
+
+const RESOURCE = 'DataQuote30Misc';
+const ENDPOINT = 'DataQuote30';
+const RESOURCE_DISPLAY_NAME = 'Quote Fields';
+
+const QUOTE_PROJECT_TYPE = ProjectTypeIdByName.QUOTE;
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getStatus: {
+        soapAction: 'getStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Get Status',
+        subtitleName: 'get status: quote fields',
+        titleName: 'Get Quote Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the status of the quote',
+        returnType: 'Integer',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    setStatus: {
+        soapAction: 'setStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Set Status',
+        subtitleName: 'set status: quote fields',
+        titleName: 'Set Quote Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the status of the quote',
+        returnType: 'Void',
+        paramOrder: ['status', 'quoteID'],
+        active: true,
+    },
+    getProjectName: {
+        soapAction: 'getProjectName',
+        endpoint: ENDPOINT,
+        uiName: 'Get Project Name',
+        subtitleName: 'get project name: quote fields',
+        titleName: 'Get Project Name',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the project name of the quote',
+        returnType: 'String',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    setProjectName: {
+        soapAction: 'setProjectName',
+        endpoint: ENDPOINT,
+        uiName: 'Set Project Name',
+        subtitleName: 'set project name: quote fields',
+        titleName: 'Set Project Name',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the project name of the quote',
+        returnType: 'Void',
+        paramOrder: ['projectName', 'quoteID'],
+        active: true,
+    },
+    getSubject: {
+        soapAction: 'getSubject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Subject',
+        subtitleName: 'get subject: quote fields',
+        titleName: 'Get Subject',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the subject of the quote',
+        returnType: 'String',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    setSubject: {
+        soapAction: 'setSubject',
+        endpoint: ENDPOINT,
+        uiName: 'Set Subject',
+        subtitleName: 'set subject: quote fields',
+        titleName: 'Set Subject',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the subject of the quote',
+        returnType: 'Void',
+        paramOrder: ['subject', 'quoteID'],
+        active: true,
+    },
+    getExternalID: {
+        soapAction: 'getExternalID',
+        endpoint: ENDPOINT,
+        uiName: 'Get External ID',
+        subtitleName: 'get external id: quote fields',
+        titleName: 'Get External ID',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the external ID of the quote',
+        returnType: 'String',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    setExternalID: {
+        soapAction: 'setExternalID',
+        endpoint: ENDPOINT,
+        uiName: 'Set External ID',
+        subtitleName: 'set external id: quote fields',
+        titleName: 'Set External ID',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the external ID of the quote',
+        returnType: 'Void',
+        paramOrder: ['externalID', 'quoteID'],
+        active: true,
+    },
+    getQuoteItems: {
+        // Composite: DataItem30.getAllItemObjects with projectType QUOTE
+        soapAction: 'getQuoteItems',
+        endpoint: 'DataItem30',
+        uiName: 'Get Quote Items',
+        subtitleName: 'get items: quote fields',
+        titleName: 'Get Quote Items',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get all items of the quote',
+        returnType: 'ItemList',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+    convertToOrder: {
+        soapAction: 'convertToOrder',
+        endpoint: ENDPOINT,
+        uiName: 'Convert to Order',
+        subtitleName: 'convert to order: quote fields',
+        titleName: 'Convert Quote to Order',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Convert the quote into an order and return the new order ID',
+        returnType: 'Integer',
+        paramOrder: ['quoteID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'String'|'Integer'|'ItemList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+const FIELD_LABELS: Record<string, { displayName: string; description: string }> = {
+    projectName: { displayName: 'Project Name', description: 'New project name of the quote' },
+    subject: { displayName: 'Subject', description: 'New subject of the quote' },
+    externalID: { displayName: 'External ID', description: 'New external ID of the quote' },
+};
+
+const extraProperties: INodeProperties[] =
+    Object.entries(PARAM_ORDER).flatMap(([op, params]) =>
+        params.map<INodeProperties>((p) => {
+            if (p === 'quoteID') {
+                return {
+                    displayName: 'Quote ID',
+                    name: p,
+                    type: 'number',
+                    default: 0,
+                    required: true,
+                    description: 'The ID of the quote',
+                    displayOptions: {
+                        show: {
+                            resource: [RESOURCE],
+                            operation: [op],
+                        },
+                    },
+                };
+            }
+            if (p === 'status') {
+                return {
+                    displayName: 'Status',
+                    name: p,
+                    type: 'options',
+                    options: QuoteStatusOptions,
+                    default: 1,
+                    required: true,
+                    description: 'New status of the quote',
+                    displayOptions: {
+                        show: {
+                            resource: [RESOURCE],
+                            operation: [op],
+                        },
+                    },
+                };
+            }
+            const label = FIELD_LABELS[p] ?? { displayName: p, description: `${p} parameter for ${op}` };
+            return {
+                displayName: label.displayName,
+                name: p,
+                type: 'string',
+                default: '',
+                description: label.description,
+                displayOptions: {
+                    show: {
+                        resource: [RESOURCE],
+                        operation: [op],
+                    },
+                },
+            };
+        }),
+    );
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'String': {
+                    const r = parseStringResult(xml);
+                    payload = { data: r.data ?? '', statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    if (op === 'getStatus') {
+                        const statusId = r.value ?? null;
+                        payload = {
+                            statusId,
+                            statusName: idToQuoteStatusName(statusId),
+                            statusMessage: r.statusMessage,
+                            statusCode: r.statusCode,
+                        };
+                    } else if (op === 'convertToOrder') {
+                        payload = { orderID: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    } else {
+                        payload = { value: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    }
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        undefined, // Setters take the value first, then the quote ID, as in PARAM_ORDER
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataQuote30MiscService: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Field operations for DataQuote30',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        if (operation === 'getQuoteItems') {
+            const quoteID = ctx.getNodeParameter('quoteID', itemIndex) as number;
+            const r = await executeServiceOperation(
+                DataItem30CoreService,
+                'getAllItemObjects',
+                { projectID: quoteID, projectType: QUOTE_PROJECT_TYPE },
+                ctx,
+                creds,
+                baseUrl,
+                timeoutMs,
+                itemIndex,
+            );
+            return { ...r, resource: RESOURCE, operation, quoteID };
+        }
+
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        return await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+    },
+};
@@ -0,0 +1,523 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import {
+    extractStatusMessage, parseIntegerResult, parseIntegerArrayResult, parseStringArrayResult, parseVoidResult,
+} from '../core/xml';
+import { parseRequestResult } from '../core/parsers/request';
+import { RequestStatusOptions, idToRequestStatusName } from '../enums/request-status';
+import { SearchScopeOptions } from '../enums/search-scope';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+    createSearchExpansionProperties,
+    expandSearchResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataRequest30';
+const ENDPOINT = 'DataRequest30';
+const RESOURCE_DISPLAY_NAME = 'Request';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    getRequest: {
+        soapAction: 'getRequestObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Request',
+        subtitleName: 'get: request',
+        titleName: 'Get a Request',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve a single request by ID',
+        returnType: 'Request',
+        paramOrder: ['requestID'],
+        active: true,
+    },
+    insertRequest: {
+        soapAction: 'insert2',
+        endpoint: ENDPOINT,
+        uiName: 'Create Request',
+        subtitleName: 'insert: request',
+        titleName: 'Create a Request',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Create a new request',
+        returnType: 'Integer',
+        paramOrder: [],
+        active: true,
+    },
+    updateRequest: {
+        soapAction: 'update',
+        endpoint: ENDPOINT,
+        uiName: 'Update Request',
+        subtitleName: 'update: request',
+        titleName: 'Update a Request',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Update an existing request',
+        returnType: 'Void',
+        paramOrder: ['requestID', 'enableNullOrEmptyValues'],
+        active: true,
+    },
+    searchRequests: {
+        soapAction: 'search',
+        endpoint: ENDPOINT,
+        uiName: 'Search Requests',
+        subtitleName: 'search: requests',
+        titleName: 'Search Requests',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Search for requests by status and time frame',
+        returnType: 'IntegerArray',
+        paramOrder: ['dateRelation', 'dateFrom', 'dateTo', 'searchFilters'],
+        active: true,
+    },
+    getStatus: {
+        soapAction: 'getStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Get Status',
+        subtitleName: 'get status: request',
+        titleName: 'Get Request Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the status of the request',
+        returnType: 'Integer',
+        paramOrder: ['requestID'],
+        active: true,
+    },
+    setStatus: {
+        soapAction: 'setStatus',
+        endpoint: ENDPOINT,
+        uiName: 'Set Status',
+        subtitleName: 'set status: request',
+        titleName: 'Set Request Status',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Set the status of the request',
+        returnType: 'Void',
+        paramOrder: ['status', 'requestID'],
+        active: true,
+    },
+    getLanguageCombination: {
+        soapAction: 'getLanguageCombination',
+        endpoint: ENDPOINT,
+        uiName: 'Get Language Combinations',
+        subtitleName: 'get language combinations: request',
+        titleName: 'Get Language Combinations',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the language combinations of the request',
+        returnType: 'StringArray',
+        paramOrder: ['requestID'],
+        active: true,
+    },
+    addLanguageCombination: {
+        soapAction: 'addLanguageCombination',
+        endpoint: ENDPOINT,
+        uiName: 'Add Language Combination',
+        subtitleName: 'add language combination: request',
+        titleName: 'Add Language Combination',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a source/target language combination to the request',
+        returnType: 'Integer',
+        paramOrder: ['sourceLanguage', 'targetLanguage', 'requestID'],
+        active: true,
+    },
+    orderRequest: {
+        soapAction: 'orderRequest',
+        endpoint: ENDPOINT,
+        uiName: 'Create Order From Request',
+        subtitleName: 'order from request: request',
+        titleName: 'Create Order From Request',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Turn the request into an order and return the new order ID',
+        returnType: 'Integer',
+        paramOrder: ['requestID'],
+        active: true,
+    },
+    quoteRequest: {
+        soapAction: 'quoteRequest',
+        endpoint: ENDPOINT,
+        uiName: 'Create Quote From Request',
+        subtitleName: 'quote from request: request',
+        titleName: 'Create Quote From Request',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Turn the request into a quote and return the new quote ID',
+        returnType: 'Integer',
+        paramOrder: ['requestID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'IntegerArray'|'StringArray'|'Request';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+/** Integer results that carry the ID of a newly created object. */
+const CREATED_ID_FIELD: Record<string, string> = {
+    insert2: 'requestID',
+    orderRequest: 'orderID',
+    quoteRequest: 'quoteID',
+};
+
+/** Optional RequestIN fields (insert2 + update). */
+const REQUEST_FIELD_OPTIONS: INodeProperties[] = [
+    { displayName: 'Brief Description', name: 'briefDescription', type: 'string', default: '', description: 'Brief description of the request' },
+    { displayName: 'Creation Date', name: 'creationDate', type: 'dateTime', default: '', description: 'Creation date of the request' },
+    { displayName: 'Delivery Date', name: 'deliveryDate', type: 'dateTime', default: '', description: 'Requested delivery date' },
+    { displayName: 'Master Project ID', name: 'masterProjectID', type: 'number', default: 0, description: 'Master project ID' },
+    { displayName: 'Order ID', name: 'orderID', type: 'number', default: 0, description: 'Linked order ID' },
+    { displayName: 'Price', name: 'price', type: 'number', default: 0, typeOptions: { numberPrecision: 2 }, description: 'Price of the request' },
+    { displayName: 'Quotation Date', name: 'quotationDate', type: 'dateTime', default: '', description: 'Quotation date' },
+    { displayName: 'Quote ID', name: 'quoteID', type: 'number', default: 0, description: 'Linked quote ID' },
+    { displayName: 'Status', name: 'status', type: 'options', options: [{ name: 'Please select...', value: '' }, ...RequestStatusOptions], default: '', description: 'Request status' },
+    { displayName: 'Subject', name: 'subject', type: 'string', default: '', description: 'Subject of the request' },
+];
+
+/** Optional SearchFilter_Request fields besides the time frame. */
+const REQUEST_SEARCH_FILTER_OPTIONS: INodeProperties[] = [
+    { displayName: 'Request Status', name: 'requestStatus', type: 'options', options: RequestStatusOptions, default: 1, description: 'Only return requests with this status' },
+];
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Request ID',
+        name: 'requestID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the request',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: [
+                    'getRequestObject', 'update', 'getStatus', 'setStatus',
+                    'getLanguageCombination', 'addLanguageCombination', 'orderRequest', 'quoteRequest',
+                ],
+            },
+        },
+    },
+    {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: RequestStatusOptions,
+        default: 1,
+        required: true,
+        description: 'New status of the request',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['setStatus'],
+            },
+        },
+    },
+    {
+        displayName: 'Source Language',
+        name: 'sourceLanguage',
+        type: 'string',
+        default: '',
+        required: true,
+        description: 'Source language code, e.g. EN',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['addLanguageCombination'],
+            },
+        },
+    },
+    {
+        displayName: 'Target Language',
+        name: 'targetLanguage',
+        type: 'string',
+        default: '',
+        required: true,
+        description: 'Target language code, e.g. DE',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['addLanguageCombination'],
+            },
+        },
+    },
+    {
+        displayName: 'Enable Null or Empty Values',
+        name: 'enableNullOrEmptyValues',
+        type: 'boolean',
+        default: false,
+        description: 'If enabled, empty inputs overwrite existing values in Plunet. If disabled, empty inputs are ignored.',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['update'],
+            },
+        },
+    },
+    {
+        displayName: 'Additional Fields',
+        name: 'additionalFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['insert2'],
+            },
+        },
+        options: REQUEST_FIELD_OPTIONS,
+    },
+    {
+        displayName: 'Update Fields',
+        name: 'additionalFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['update'],
+            },
+        },
+        options: REQUEST_FIELD_OPTIONS,
+    },
+    // Search Requests properties
+    {
+        displayName: 'Date Relation',
+        name: 'dateRelation',
+        type: 'options',
+        options: SearchScopeOptions,
+        default: 1,
+        required: true,
+        description: 'Date relation scope for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date From',
+        name: 'dateFrom',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'Start date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Date To',
+        name: 'dateTo',
+        type: 'dateTime',
+        default: '',
+        required: true,
+        description: 'End date for the search (mandatory)',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+    },
+    {
+        displayName: 'Search Filters',
+        name: 'searchFilters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        description: 'Optional search filters',
+        displayOptions: {
+            show: {
+                resource: [RESOURCE],
+                operation: ['search'],
+            },
+        },
+        options: REQUEST_SEARCH_FILTER_OPTIONS,
+    },
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
+];
+
+/** Build <RequestIN> from the fixed IDs and the selected collection fields. */
+function buildRequestINXml(fixed: IDataObject, additionalFields: IDataObject): string {
+    const fields: IDataObject = { ...additionalFields, ...fixed };
+    let requestIN = `<RequestIN>`;
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === '' || value === null || value === undefined) continue;
+        requestIN += `\n<${key}>${escapeXml(String(value))}</${key}>`;
+    }
+    requestIN += `\n</RequestIN>`;
+    return requestIN;
+}
+
+/**
+ * Build the <SearchFilter_Request> block for DataRequest30.search.
+ */
+function buildRequestSearchFilterXml(
+    dateRelation: number,
+    dateFrom: string,
+    dateTo: string,
+    searchFilters: IDataObject,
+): string {
+    let searchFilter = `<SearchFilter_Request>`;
+
+    searchFilter += `\n<timeFrame>`;
+    const formattedDateFrom = dateFrom ? new Date(dateFrom).toISOString().split('T')[0] : '';
+    const formattedDateTo = dateTo ? new Date(dateTo).toISOString().split('T')[0] : '';
+    if (formattedDateFrom) searchFilter += `\n<dateFrom>${escapeXml(formattedDateFrom)}</dateFrom>`;
+    if (formattedDateTo) searchFilter += `\n<dateTo>${escapeXml(formattedDateTo)}</dateTo>`;
+    searchFilter += `\n<dateRelation>${dateRelation}</dateRelation>`;
+    searchFilter += `\n</timeFrame>`;
+
+    if (searchFilters.requestStatus) searchFilter += `\n<requestStatus>${searchFilters.requestStatus}</requestStatus>`;
+
+    searchFilter += `\n</SearchFilter_Request>`;
+    return searchFilter;
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'Request': {
+                    const r = parseRequestResult(xml);
+                    const request = r.request || {};
+
+                    // Add status label if available
+                    if (request.status !== undefined) {
+                        request.statusLabel = idToRequestStatusName(request.status);
+                    }
+
+                    payload = { request, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    if (op === 'getStatus') {
+                        const statusId = r.value ?? null;
+                        payload = {
+                            statusId,
+                            statusName: idToRequestStatusName(statusId),
+                            statusMessage: r.statusMessage,
+                            statusCode: r.statusCode,
+                        };
+                    } else {
+                        const field = CREATED_ID_FIELD[op] ?? 'value';
+                        payload = { [field]: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    }
+                    break;
+                }
+                case 'IntegerArray': {
+                    const r = parseIntegerArrayResult(xml);
+                    payload = { data: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'StringArray': {
+                    const r = parseStringArrayResult(xml);
+                    payload = { languageCombinations: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insert2') {
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const requestIN = buildRequestINXml({}, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${requestIN}`;
+            }
+            if (op === 'update') {
+                const requestID = ctx.getNodeParameter('requestID', itemIndex, 0) as number;
+                const enableNullOrEmptyValues = ctx.getNodeParameter('enableNullOrEmptyValues', itemIndex, false) as boolean;
+                const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+                const requestIN = buildRequestINXml({ requestID }, additionalFields);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${requestIN}\n<enableNullOrEmptyValues>${enableNullOrEmptyValues ? 1 : 0}</enableNullOrEmptyValues>`;
+            }
+            if (op === 'search') {
+                const dateRelation = ctx.getNodeParameter('dateRelation', itemIndex, 1) as number;
+                const dateFrom = ctx.getNodeParameter('dateFrom', itemIndex, '') as string;
+                const dateTo = ctx.getNodeParameter('dateTo', itemIndex, '') as string;
+                const searchFilters = ctx.getNodeParameter('searchFilters', itemIndex, {}) as IDataObject;
+
+                const searchFilter = buildRequestSearchFilterXml(dateRelation, dateFrom, dateTo, searchFilters);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${searchFilter}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataRequest30Service: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Customer requests (DataRequest30)',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        if (operation === 'search') {
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                executeOperation(ctx, 'getRequestObject', { requestID: id }, config, itemIndex),
+            );
+        }
+        return result;
+    },
+};
@@ -31,6 +31,8 @@ import {
     createTypedProperty,
     handleVoidResult,
     generateOperationOptionsFromRegistry,
+    createSearchExpansionProperties,
+    expandSearchResult,
 } from '../core/service-utils';
 import { escapeXml } from '../core/soap';
 import {
@@ -375,6 +377,9 @@ const extraProperties: INodeProperties[] = [
                 );
             }),
     ),
+
+    // Limit / full-object expansion for search
+    ...createSearchExpansionProperties(RESOURCE, 'search'),
 ];
 
 function buildResourceINXml(
@@ -560,7 +565,7 @@ export const DataResource30CoreService: Service = {
     extraProperties,
     async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
         const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
-        return await executeStandardService(
+        const result = await executeStandardService(
             operation,
             ctx,
             creds,
@@ -571,5 +576,12 @@ export const DataResource30CoreService: Service = {
             PARAM_ORDER,
             config,
         );
+
+        if (operation === 'search') {
+            return await expandSearchResult(ctx, itemIndex, result, (id) =>
+                executeOperation(ctx, 'getResourceObject', { resourceID: id }, config, itemIndex),
+            );
+        }
+        return result;
     },
 };
\ No newline at end of file
@@ -8,7 +8,7 @@ import { labelize, asNonEmpty } from '../core/utils';
 import { NUMERIC_BOOLEAN_PARAMS } from '../core/constants';
 import {
     extractResultBase, extractStatusMessage, extractSoapFault,
-    parseStringResult, parseIntegerResult, parseIntegerArrayResult, parseVoidResult,
+    parseStringResult, parseStringArrayResult, parseIntegerResult, parseIntegerArrayResult, parseVoidResult,
 } from '../core/xml';
 import { parseResourceResult, parseResourceListResult } from '../core/parsers/resource';
 import { parsePricelistListResult } from '../core/parsers/pricelist';
@@ -28,8 +28,10 @@ import {
     createStringProperty,
     createOptionsProperty,
     handleVoidResult,
+    executeServiceOperation,
 } from '../core/service-utils';
 import { escapeXml } from '../core/soap';
+import { DataCustomFields30Service } from './dataCustomFields30';
 
 const RESOURCE = 'DataResource30Misc';
 const ENDPOINT = 'DataResource30';
@@ -157,6 +159,162 @@ const OPERATION_REGISTRY: ServiceOperationRegistry = {
         paramOrder: ['paymentMethodID','systemLanguageCode'],
         active: true,
     },
+    getWorkingLanguages: {
+        soapAction: 'getWorkingLanguages',
+        endpoint: ENDPOINT,
+        uiName: 'Get Working Languages',
+        subtitleName: 'get working languages: resource fields',
+        titleName: 'Get Working Languages',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the working languages of the resource',
+        returnType: 'StringArray',
+        paramOrder: ['resourceID'],
+        active: true,
+    },
+    addWorkingLanguage: {
+        soapAction: 'addWorkingLanguage',
+        endpoint: ENDPOINT,
+        uiName: 'Add Working Language',
+        subtitleName: 'add working language: resource fields',
+        titleName: 'Add Working Language',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a working language to the resource',
+        returnType: 'Void',
+        paramOrder: ['language', 'resourceID'],
+        active: true,
+    },
+    removeWorkingLanguage: {
+        soapAction: 'removeWorkingLanguage',
+        endpoint: ENDPOINT,
+        uiName: 'Remove Working Language',
+        subtitleName: 'remove working language: resource fields',
+        titleName: 'Remove Working Language',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Remove a working language from the resource',
+        returnType: 'Void',
+        paramOrder: ['language', 'resourceID'],
+        active: true,
+    },
+    getLanguageCombinations: {
+        soapAction: 'getLanguageCombinations',
+        endpoint: ENDPOINT,
+        uiName: 'Get Language Combinations',
+        subtitleName: 'get language combinations: resource fields',
+        titleName: 'Get Language Combinations',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the source/target language pairs of the resource',
+        returnType: 'StringArray',
+        paramOrder: ['resourceID'],
+        active: true,
+    },
+    addLanguageCombination: {
+        soapAction: 'addLanguageCombination',
+        endpoint: ENDPOINT,
+        uiName: 'Add Language Combination',
+        subtitleName: 'add language combination: resource fields',
+        titleName: 'Add Language Combination',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a source/target language pair to the resource',
+        returnType: 'Void',
+        paramOrder: ['sourceLanguage', 'targetLanguage', 'resourceID'],
+        active: true,
+    },
+    removeLanguageCombination: {
+        soapAction: 'removeLanguageCombination',
+        endpoint: ENDPOINT,
+        uiName: 'Remove Language Combination',
+        subtitleName: 'remove language combination: resource fields',
+        titleName: 'Remove Language Combination',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Remove a source/target language pair from the resource',
+        returnType: 'Void',
+        paramOrder: ['sourceLanguage', 'targetLanguage', 'resourceID'],
+        active: true,
+    },
+    getServices: {
+        soapAction: 'getServices',
+        endpoint: ENDPOINT,
+        uiName: 'Get Services',
+        subtitleName: 'get services: resource fields',
+        titleName: 'Get Services',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the services the resource offers',
+        returnType: 'StringArray',
+        paramOrder: ['resourceID'],
+        active: true,
+    },
+    addService: {
+        soapAction: 'addService',
+        endpoint: ENDPOINT,
+        uiName: 'Add Service',
+        subtitleName: 'add service: resource fields',
+        titleName: 'Add Service',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a service to the resource',
+        returnType: 'Void',
+        paramOrder: ['service', 'resourceID'],
+        active: true,
+    },
+    removeService: {
+        soapAction: 'removeService',
+        endpoint: ENDPOINT,
+        uiName: 'Remove Service',
+        subtitleName: 'remove service: resource fields',
+        titleName: 'Remove Service',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Remove a service from the resource',
+        returnType: 'Void',
+        paramOrder: ['service', 'resourceID'],
+        active: true,
+    },
+    getResourceProperty: {
+        soapAction: 'getResourceProperty',
+        endpoint: ENDPOINT,
+        uiName: 'Get Property',
+        subtitleName: 'get property: resource fields',
+        titleName: 'Get Property',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Get the selected values of a resource property',
+        returnType: 'Property',
+        paramOrder: ['PropertyNameEnglish', 'resourceID'],
+        active: true,
+    },
+    addResourcePropertyValue: {
+        soapAction: 'addResourcePropertyValue',
+        endpoint: ENDPOINT,
+        uiName: 'Add Property Value',
+        subtitleName: 'add property value: resource fields',
+        titleName: 'Add Property Value',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Select an additional value of a resource property',
+        returnType: 'Property',
+        paramOrder: ['PropertyNameEnglish', 'PropertyValueID', 'resourceID'],
+        active: true,
+    },
+    removeResourcePropertyValue: {
+        soapAction: 'removeResourcePropertyValue',
+        endpoint: ENDPOINT,
+        uiName: 'Remove Property Value',
+        subtitleName: 'remove property value: resource fields',
+        titleName: 'Remove Property Value',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Deselect a value of a resource property',
+        returnType: 'Property',
+        paramOrder: ['PropertyNameEnglish', 'PropertyValueID', 'resourceID'],
+        active: true,
+    },
 };
 
 /** ─ Legacy compatibility mappings ─ */
@@ -166,7 +324,7 @@ const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
         .map(op => [op.soapAction, op.paramOrder])
 );
 
-type R = 'Void'|'String'|'Integer'|'IntegerArray'|'Resource'|'ResourceList'|'PricelistList'|'PaymentInfo';
+type R = 'Void'|'String'|'StringArray'|'Integer'|'IntegerArray'|'Resource'|'ResourceList'|'PricelistList'|'PaymentInfo'|'Property';
 const RETURN_TYPE: Record<string, R> = Object.fromEntries(
     Object.values(OPERATION_REGISTRY)
         .filter(op => op.active) // Only include active operations
@@ -175,11 +333,23 @@ const RETURN_TYPE: Record<string, R> = Object.fromEntries(
 
 const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
 
+/** Output field name for each StringArray operation */
+const STRING_ARRAY_FIELD: Record<string, string> = {
+    getWorkingLanguages: 'languages',
+    getLanguageCombinations: 'languageCombinations',
+    getServices: 'services',
+};
+
+/** Resource properties live in DataCustomFields30 under PropertyUsageArea 2 (Resource) */
+const RESOURCE_PROPERTY_USAGE_AREA = 2;
+const PROPERTY_OPS = new Set(['getResourceProperty', 'addResourcePropertyValue', 'removeResourcePropertyValue']);
+
 // enum detectors
 const isStatusParam = (p: string) => p === 'Status' || p === 'status';
 const isWorkingStatusParam = (p: string) => p === 'WorkingStatus' || p === 'workingStatus';
 const isResourceTypeParam = (p: string) => p === 'ResourceType' || p === 'resourceType';
 const isFormOfAddressParam = (p: string) => p === 'FormOfAddress' || p === 'formOfAddress';
+const isLanguageParam = (p: string) => p === 'language' || p === 'sourceLanguage' || p === 'targetLanguage';
 
 const extraProperties: INodeProperties[] =
     Object.entries(PARAM_ORDER).flatMap(([op, params]) =>
@@ -216,6 +386,30 @@ const extraProperties: INodeProperties[] =
                     displayOptions: { show: { resource: [RESOURCE], operation: [op] } },
                 };
             }
+            if (isLanguageParam(p)) {
+                return {
+                    displayName: p === 'language' ? 'Language' : p === 'sourceLanguage' ? 'Source Language' : 'Target Language',
+                    name: p, type: 'options', typeOptions: { loadOptionsMethod: 'getAvailableLanguages' }, default: '',
+                    description: `${p} parameter for ${op}`,
+                    displayOptions: { show: { resource: [RESOURCE], operation: [op] } },
+                };
+            }
+            if (p === 'PropertyNameEnglish') {
+                return {
+                    displayName: 'Property Name',
+                    name: p, type: 'string', default: '',
+                    description: 'English name of the resource property (e.g. Subject Area)',
+                    displayOptions: { show: { resource: [RESOURCE], operation: [op] } },
+                };
+            }
+            if (p === 'PropertyValueID') {
+                return {
+                    displayName: 'Property Value ID',
+                    name: p, type: 'number', default: 0, typeOptions: { minValue: 0, step: 1 },
+                    description: `ID of the property value to ${op.startsWith('add') ? 'select' : 'deselect'}`,
+                    displayOptions: { show: { resource: [RESOURCE], operation: [op] } },
+                };
+            }
             if (p === 'preselectedTaxID') {
                 return {
                     displayName: 'Preselected Tax',
@@ -244,6 +438,8 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
         getSessionId: async (ctx: IExecuteFunctions) => {
             return await ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0);
         },
+        creds, // Pass credentials for debug mode and retry settings
+        timeoutMs, // Credential timeout or node override
         buildCustomBodyXml: () => null, // No custom body building needed for misc operations
         parseResult: (xml: string, op: string) => {
             const rt = RETURN_TYPE[op] as R|undefined;
@@ -296,6 +492,11 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
                     }
                     break;
                 }
+                case 'StringArray': {
+                    const r = parseStringArrayResult(xml);
+                    payload = { [STRING_ARRAY_FIELD[op] ?? 'data']: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
                 case 'IntegerArray': {
                     const r = parseIntegerArrayResult(xml);
                     payload = { data: r.data, statusMessage: r.statusMessage, statusCode: r.statusCode };
@@ -319,6 +520,73 @@ function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeout
     };
 }
 
+/**
+ * Get / add / remove values of a resource property. Plunet keeps resource properties
+ * in DataCustomFields30, so add and remove read the current selection and write back
+ * the changed list with setPropertyValueList.
+ */
+async function executeResourcePropertyOperation(
+    operation: string,
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+): Promise<IDataObject> {
+    const resourceID = Number(ctx.getNodeParameter('resourceID', itemIndex, 0));
+    const propertyNameEnglish = String(ctx.getNodeParameter('PropertyNameEnglish', itemIndex, '')).trim();
+    const lookup: IDataObject = {
+        PropertyUsageArea: RESOURCE_PROPERTY_USAGE_AREA,
+        MainID: resourceID,
+        PropertyNameEnglish: propertyNameEnglish,
+    };
+
+    const current = await executeServiceOperation(DataCustomFields30Service, 'getProperty', lookup, ctx, creds, baseUrl, timeoutMs, itemIndex);
+    const selected = (current.selected_properties as number[] | undefined)
+        ?? (current.selectedPropertyValueID ? [current.selectedPropertyValueID as number] : []);
+
+    let selectedPropertyValueIDs = selected;
+    if (operation !== 'getResourceProperty') {
+        const valueID = Number(ctx.getNodeParameter('PropertyValueID', itemIndex, 0));
+        if (operation === 'addResourcePropertyValue') {
+            // Single select properties (type 1) can only hold one value
+            selectedPropertyValueIDs = current.propertyType === 1 ? [valueID]
+                : selected.includes(valueID) ? selected : [...selected, valueID];
+        } else {
+            selectedPropertyValueIDs = selected.filter((id) => id !== valueID);
+        }
+
+        const changed = selectedPropertyValueIDs.length !== selected.length
+            || selectedPropertyValueIDs.some((id, i) => id !== selected[i]);
+        if (changed) {
+            const r = await executeServiceOperation(
+                DataCustomFields30Service,
+                'setPropertyValueList',
+                { ...lookup, PropertyIDs: selectedPropertyValueIDs.join(',') },
+                ctx, creds, baseUrl, timeoutMs, itemIndex,
+            );
+            if (r.ok === false) {
+                const msg = (r.statusMessage as string) || 'Operation failed';
+                throw new NodeOperationError(ctx.getNode(), `${operation}: ${msg}${r.statusCode!==undefined?` [${r.statusCode}]`:''}`, { itemIndex });
+            }
+        }
+    }
+
+    return {
+        success: true,
+        resource: RESOURCE,
+        operation,
+        resourceID,
+        propertyNameEnglish,
+        propertyType: current.propertyType,
+        propertyTypeEnglish: current.propertyTypeEnglish,
+        selectedPropertyValueIDs,
+        availablePropertyValueIDs: (current.availableProperties as number[] | undefined) ?? [],
+        statusMessage: current.statusMessage,
+        statusCode: current.statusCode,
+    } as IDataObject;
+}
+
 /** Service export */
 export const DataResource30MiscService: Service = {
     resource: RESOURCE,
@@ -332,6 +600,10 @@ export const DataResource30MiscService: Service = {
         const paramNames = PARAM_ORDER[operation];
         if (!paramNames) throw new Error(`Unsupported operation for ${RESOURCE}: ${operation}`);
 
+        if (PROPERTY_OPS.has(operation)) {
+            return await executeResourcePropertyOperation(operation, ctx, creds, baseUrl, timeoutMs, itemIndex);
+        }
+
         const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
         
         // Get parameters from the context
@@ -0,0 +1,386 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions, NodeOperationError,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import type { ExecuteConfig } from '../core/executor';
+import { extractStatusMessage, parseIntegerResult, parseVoidResult } from '../core/xml';
+import { parsePricelistEntryListResult } from '../core/parsers/pricelist';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    executeServiceOperation,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+import { DataJob30PricesService } from './dataJob30.prices';
+
+const RESOURCE = 'DataResource30Prices';
+const ENDPOINT = 'DataResource30';
+const RESOURCE_DISPLAY_NAME = 'Resource Prices';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    assignPricelist: {
+        soapAction: 'assignPricelist',
+        endpoint: ENDPOINT,
+        uiName: 'Assign Pricelist',
+        subtitleName: 'assign pricelist: resource prices',
+        titleName: 'Assign Pricelist to Resource',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Assign a pricelist to a resource',
+        returnType: 'Void',
+        paramOrder: ['resourceID', 'pricelistID'],
+        active: true,
+    },
+    getPricelistEntries: {
+        soapAction: 'getPricelistEntry_List',
+        endpoint: ENDPOINT,
+        uiName: 'Get Pricelist Entries',
+        subtitleName: 'get pricelist entries: resource prices',
+        titleName: 'Get Pricelist Entries',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve the entries of a resource pricelist for a language pair',
+        returnType: 'PricelistEntryList',
+        paramOrder: ['PricelistID', 'SourceLanguage', 'TargetLanguage'],
+        active: true,
+    },
+    insertPricelistEntry: {
+        soapAction: 'insertPricelistEntry',
+        endpoint: ENDPOINT,
+        uiName: 'Create Pricelist Entry',
+        subtitleName: 'create pricelist entry: resource prices',
+        titleName: 'Create Pricelist Entry',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Add a rate to a resource pricelist',
+        returnType: 'Integer',
+        paramOrder: ['pricelistID'],
+        active: true,
+    },
+    updatePricelistEntry: {
+        soapAction: 'updatePricelistEntry',
+        endpoint: ENDPOINT,
+        uiName: 'Update Pricelist Entry',
+        subtitleName: 'update pricelist entry: resource prices',
+        titleName: 'Update Pricelist Entry',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Change a rate of a resource pricelist',
+        returnType: 'Void',
+        paramOrder: ['pricelistEntryID'],
+        active: true,
+    },
+    deletePricelistEntry: {
+        soapAction: 'deletePricelistEntry',
+        endpoint: ENDPOINT,
+        uiName: 'Delete Pricelist Entry',
+        subtitleName: 'delete pricelist entry: resource prices',
+        titleName: 'Delete Pricelist Entry',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Remove a rate from a resource pricelist',
+        returnType: 'Void',
+        paramOrder: ['pricelistEntryID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'PricelistEntryList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+const ENTRY_OPS = ['insertPricelistEntry', 'updatePricelistEntry'];
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Resource ID',
+        name: 'resourceID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the resource',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['assignPricelist'] } },
+    },
+    {
+        displayName: 'Pricelist ID',
+        name: 'pricelistID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the pricelist',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['assignPricelist', 'insertPricelistEntry'] } },
+    },
+    {
+        displayName: 'Pricelist Entry ID',
+        name: 'pricelistEntryID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the pricelist entry',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['updatePricelistEntry', 'deletePricelistEntry'] } },
+    },
+    {
+        displayName: 'Source Language',
+        name: 'sourceLanguage',
+        type: 'options',
+        typeOptions: { loadOptionsMethod: 'getAvailableLanguages' },
+        default: '',
+        description: 'Source language of the rate',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    {
+        displayName: 'Target Language',
+        name: 'targetLanguage',
+        type: 'options',
+        typeOptions: { loadOptionsMethod: 'getAvailableLanguages' },
+        default: '',
+        description: 'Target language of the rate',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    // getPricelistEntry_List takes PascalCase parameters (as in DataJob30)
+    {
+        displayName: 'Pricelist ID',
+        name: 'PricelistID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the pricelist',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['getPricelistEntry_List'] } },
+    },
+    {
+        displayName: 'Source Language',
+        name: 'SourceLanguage',
+        type: 'options',
+        typeOptions: { loadOptionsMethod: 'getAvailableLanguages' },
+        default: '',
+        description: 'Source language of the entries',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['getPricelistEntry_List'] } },
+    },
+    {
+        displayName: 'Target Language',
+        name: 'TargetLanguage',
+        type: 'options',
+        typeOptions: { loadOptionsMethod: 'getAvailableLanguages' },
+        default: '',
+        description: 'Target language of the entries',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['getPricelistEntry_List'] } },
+    },
+    {
+        displayName: 'Service',
+        name: 'service',
+        type: 'string',
+        default: '',
+        required: true,
+        description: 'Service of the price unit (e.g. Translation); used to look up the valid price units',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    {
+        displayName: 'Language Code',
+        name: 'languageCode',
+        type: 'string',
+        default: 'EN',
+        description: 'Language of the price unit list the price unit is checked against (defaults to EN)',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    {
+        displayName: 'Price Unit ID',
+        name: 'priceUnitID',
+        type: 'number',
+        default: 0,
+        required: true,
+        typeOptions: { minValue: 0, step: 1 },
+        description: 'Price unit of the rate; must be one of the price units of the service',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    {
+        displayName: 'Amount',
+        name: 'pricePerUnit',
+        type: 'number',
+        default: 0,
+        required: true,
+        typeOptions: { minValue: 0, numberPrecision: 4 },
+        description: 'Price per unit',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+    {
+        displayName: 'Currency',
+        name: 'currency',
+        type: 'string',
+        default: '',
+        description: 'ISO currency code (e.g. EUR); leave empty to use the pricelist currency',
+        displayOptions: { show: { resource: [RESOURCE], operation: ENTRY_OPS } },
+    },
+];
+
+/** Build <PricelistEntryIN> from the entry properties. */
+function buildPricelistEntryINXml(ctx: IExecuteFunctions, itemIndex: number, pricelistEntryID?: number): string {
+    const lines: string[] = ['<PricelistEntryIN>'];
+    if (pricelistEntryID !== undefined) lines.push(`<pricelistEntryID>${pricelistEntryID}</pricelistEntryID>`);
+    lines.push(`<priceUnitID>${ctx.getNodeParameter('priceUnitID', itemIndex, 0) as number}</priceUnitID>`);
+    lines.push(`<pricePerUnit>${ctx.getNodeParameter('pricePerUnit', itemIndex, 0) as number}</pricePerUnit>`);
+    for (const name of ['sourceLanguage', 'targetLanguage', 'currency']) {
+        const value = String(ctx.getNodeParameter(name, itemIndex, '') ?? '').trim();
+        if (value) lines.push(`<${name}>${escapeXml(value)}</${name}>`);
+    }
+    lines.push('</PricelistEntryIN>');
+    return lines.join('\n');
+}
+
+/**
+ * Price unit IDs per language and service, loaded once per execution.
+ * Keyed by the execution context, so a rate import with many items asks Plunet only once.
+ */
+const priceUnitCache = new WeakMap<object, Map<string, Promise<number[]>>>();
+
+async function loadPriceUnitIDs(
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+    languageCode: string,
+    service: string,
+): Promise<number[]> {
+    let byKey = priceUnitCache.get(ctx);
+    if (!byKey) {
+        byKey = new Map();
+        priceUnitCache.set(ctx, byKey);
+    }
+    const key = `${languageCode}|${service}`;
+    let pending = byKey.get(key);
+    if (!pending) {
+        pending = executeServiceOperation(
+            DataJob30PricesService,
+            'getPriceUnit_List',
+            { languageCode, service },
+            ctx, creds, baseUrl, timeoutMs, itemIndex,
+        ).then((r) =>
+            ((r.priceUnits as IDataObject[] | undefined) ?? [])
+                .map((u) => Number(u.priceUnitID ?? u.PriceUnitID))
+                .filter((id) => Number.isFinite(id)),
+        );
+        // Drop failed lookups so a later item can retry
+        pending.catch(() => byKey?.delete(key));
+        byKey.set(key, pending);
+    }
+    return pending;
+}
+
+/**
+ * Check the price unit against getPriceUnit_List (DataJob30) for the given service,
+ * so a typo in a rate import fails before anything is written to Plunet.
+ */
+async function assertValidPriceUnit(
+    operation: string,
+    ctx: IExecuteFunctions,
+    creds: Creds,
+    baseUrl: string,
+    timeoutMs: number,
+    itemIndex: number,
+): Promise<void> {
+    const priceUnitID = Number(ctx.getNodeParameter('priceUnitID', itemIndex, 0));
+    const service = String(ctx.getNodeParameter('service', itemIndex, '')).trim();
+    const languageCode = String(ctx.getNodeParameter('languageCode', itemIndex, 'EN')).trim() || 'EN';
+
+    const validIDs = await loadPriceUnitIDs(ctx, creds, baseUrl, timeoutMs, itemIndex, languageCode, service);
+
+    if (!validIDs.includes(priceUnitID)) {
+        const available = validIDs.length ? validIDs.join(', ') : 'none';
+        throw new NodeOperationError(
+            ctx.getNode(),
+            `${operation}: price unit ${priceUnitID} is not available for service "${service}" (available: ${available})`,
+            { itemIndex },
+        );
+    }
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'PricelistEntryList': {
+                    const r = parsePricelistEntryListResult(xml);
+                    payload = { pricelistEntries: r.entries, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    payload = { pricelistEntryID: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insertPricelistEntry') {
+                const entryIN = buildPricelistEntryINXml(ctx, itemIndex);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n<PricelistID>${itemParams.pricelistID}</PricelistID>\n${entryIN}`;
+            }
+            if (op === 'updatePricelistEntry') {
+                const entryIN = buildPricelistEntryINXml(ctx, itemIndex, itemParams.pricelistEntryID as number);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${entryIN}`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataResource30PricesService: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Pricelist assignment and pricelist entries for DataResource30',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        if (ENTRY_OPS.includes(operation)) {
+            await assertValidPriceUnit(operation, ctx, creds, baseUrl, timeoutMs, itemIndex);
+        }
+
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        return await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+    },
+};
@@ -0,0 +1,291 @@
+import {
+    IExecuteFunctions, IDataObject, INodeProperties, INodePropertyOptions,
+} from 'n8n-workflow';
+import type { Creds, Service, NonEmptyArray, ServiceOperationRegistry } from '../core/types';
+import { executeOperation, type ExecuteConfig } from '../core/executor';
+import { extractStatusMessage, parseIntegerResult, parseIntegerArrayResult, parseVoidResult } from '../core/xml';
+import { parseAddressResult, parseAddressListResult } from '../core/parsers/address';
+import { AddressTypeOptions } from '../enums/address-type';
+import {
+    createStandardExecuteConfig,
+    executeStandardService,
+    generateOperationOptionsFromRegistry,
+    handleVoidResult,
+} from '../core/service-utils';
+import { escapeXml } from '../core/soap';
+
+const RESOURCE = 'DataResourceAddress30Core';
+const ENDPOINT = 'DataResourceAddress30';
+const RESOURCE_DISPLAY_NAME = 'Resource Address';
+
+/** ─ Centralized Operation Registry ─ */
+const OPERATION_REGISTRY: ServiceOperationRegistry = {
+    insert2: {
+        soapAction: 'insert2',
+        endpoint: ENDPOINT,
+        uiName: 'Create Resource Address',
+        subtitleName: 'create: resource address',
+        titleName: 'Create Resource Address',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Create a new address for a resource',
+        returnType: 'Integer',
+        paramOrder: ['resourceID'],
+        active: true,
+    },
+    update: {
+        soapAction: 'update',
+        endpoint: ENDPOINT,
+        uiName: 'Update Resource Address',
+        subtitleName: 'update: resource address',
+        titleName: 'Update Resource Address',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Update an existing resource address',
+        returnType: 'Void',
+        paramOrder: ['addressID', 'enableNullOrEmptyValues'],
+        active: true,
+    },
+    delete: {
+        soapAction: 'delete',
+        endpoint: ENDPOINT,
+        uiName: 'Delete Resource Address',
+        subtitleName: 'delete: resource address',
+        titleName: 'Delete Resource Address',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Delete a resource address',
+        returnType: 'Void',
+        paramOrder: ['addressID'],
+        active: true,
+    },
+    getAllAddresses: {
+        soapAction: 'getAllAddresses',
+        endpoint: ENDPOINT,
+        uiName: 'Get All Resource Addresses',
+        subtitleName: 'get all: resource addresses',
+        titleName: 'Get All Resource Addresses',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve all addresses of a resource',
+        returnType: 'AddressList',
+        paramOrder: ['resourceID'],
+        active: true,
+    },
+    getAddressObject: {
+        soapAction: 'getAddressObject',
+        endpoint: ENDPOINT,
+        uiName: 'Get Address Object',
+        subtitleName: 'get: resource address',
+        titleName: 'Get Resource Address',
+        resource: RESOURCE,
+        resourceDisplayName: RESOURCE_DISPLAY_NAME,
+        description: 'Retrieve a single resource address by ID',
+        returnType: 'Address',
+        paramOrder: ['addressID'],
+        active: true,
+    },
+};
+
+/** ─ Legacy compatibility mappings ─ */
+const PARAM_ORDER: Record<string, string[]> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.paramOrder])
+);
+
+type R = 'Void'|'Integer'|'Address'|'AddressList';
+const RETURN_TYPE: Record<string, R> = Object.fromEntries(
+    Object.values(OPERATION_REGISTRY)
+        .filter(op => op.active)
+        .map(op => [op.soapAction, op.returnType as R])
+);
+
+const operationOptions: NonEmptyArray<INodePropertyOptions> = generateOperationOptionsFromRegistry(OPERATION_REGISTRY);
+
+/** AddressIN text fields, in the order they are sent. */
+const ADDRESS_TEXT_FIELDS: { name: string; displayName: string; description: string }[] = [
+    { name: 'description', displayName: 'Description', description: 'Address description' },
+    { name: 'name1', displayName: 'Name 1', description: 'First name line' },
+    { name: 'name2', displayName: 'Name 2', description: 'Second name line' },
+    { name: 'office', displayName: 'Office', description: 'Office name' },
+    { name: 'street', displayName: 'Street', description: 'Street address' },
+    { name: 'street2', displayName: 'Street 2', description: 'Additional street address line' },
+    { name: 'city', displayName: 'City', description: 'City' },
+    { name: 'zip', displayName: 'ZIP Code', description: 'ZIP/Postal code' },
+    { name: 'state', displayName: 'State', description: 'State/Province' },
+];
+
+const ADDRESS_OPS = ['insert2', 'update'];
+
+const extraProperties: INodeProperties[] = [
+    {
+        displayName: 'Resource ID',
+        name: 'resourceID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the resource',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['insert2', 'getAllAddresses'] } },
+    },
+    {
+        displayName: 'Address ID',
+        name: 'addressID',
+        type: 'number',
+        default: 0,
+        required: true,
+        description: 'The ID of the address',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['update', 'delete', 'getAddressObject'] } },
+    },
+    {
+        displayName: 'Address Type',
+        name: 'addressType',
+        type: 'options',
+        options: AddressTypeOptions,
+        default: 2,
+        required: true,
+        description: 'Type of address; billing addresses use Invoice',
+        displayOptions: { show: { resource: [RESOURCE], operation: ADDRESS_OPS } },
+    },
+    ...ADDRESS_TEXT_FIELDS.map<INodeProperties>((f) => ({
+        displayName: f.displayName,
+        name: f.name,
+        type: 'string',
+        default: '',
+        description: f.description,
+        displayOptions: { show: { resource: [RESOURCE], operation: ADDRESS_OPS } },
+    })),
+    {
+        displayName: 'Country',
+        name: 'country',
+        type: 'options',
+        typeOptions: {
+            loadOptionsMethod: 'getAvailableCountries',
+        },
+        default: '',
+        description: 'Country',
+        displayOptions: { show: { resource: [RESOURCE], operation: ADDRESS_OPS } },
+    },
+    {
+        displayName: 'Enable Null or Empty Values',
+        name: 'enableNullOrEmptyValues',
+        type: 'boolean',
+        default: false,
+        description: 'If enabled, empty inputs overwrite existing values in Plunet. If disabled, empty inputs are ignored.',
+        displayOptions: { show: { resource: [RESOURCE], operation: ['update'] } },
+    },
+];
+
+/** Build <AddressIN> from the address properties; empty fields are left out. */
+function buildAddressINXml(ctx: IExecuteFunctions, itemIndex: number, addressID?: number): string {
+    const lines: string[] = ['<AddressIN>'];
+    if (addressID !== undefined) lines.push(`<addressID>${addressID}</addressID>`);
+    lines.push(`<addressType>${ctx.getNodeParameter('addressType', itemIndex, 2) as number}</addressType>`);
+    for (const name of [...ADDRESS_TEXT_FIELDS.map((f) => f.name), 'country']) {
+        const value = ctx.getNodeParameter(name, itemIndex, '') as string;
+        if (value) lines.push(`<${name}>${escapeXml(String(value).trim())}</${name}>`);
+    }
+    lines.push('</AddressIN>');
+    return lines.join('\n');
+}
+
+// Create the execution configuration
+function createExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
+    return createStandardExecuteConfig(
+        creds,
+        url,
+        baseUrl,
+        timeoutMs,
+        PARAM_ORDER,
+        (xml: string, op: string) => {
+            const rt = RETURN_TYPE[op] as R|undefined;
+            let payload: IDataObject;
+            switch (rt) {
+                case 'Address': {
+                    const r = parseAddressResult(xml);
+                    payload = { address: r.address, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'AddressList': {
+                    // Older servers answer with address IDs only; newer ones with Address objects
+                    const r = parseAddressListResult(xml);
+                    const ids = parseIntegerArrayResult(xml).data;
+                    payload = {
+                        addresses: r.addresses,
+                        addressIDs: ids.length ? ids : r.addresses.map((a) => a.addressID),
+                        statusMessage: r.statusMessage,
+                        statusCode: r.statusCode,
+                    };
+                    break;
+                }
+                case 'Integer': {
+                    const r = parseIntegerResult(xml);
+                    payload = { addressID: r.value, statusMessage: r.statusMessage, statusCode: r.statusCode };
+                    break;
+                }
+                case 'Void': {
+                    payload = handleVoidResult(xml, op, parseVoidResult, RESOURCE);
+                    break;
+                }
+                default: {
+                    payload = { statusMessage: extractStatusMessage(xml), rawResponse: xml };
+                }
+            }
+            return { success: true, resource: RESOURCE, operation: op, ...payload } as IDataObject;
+        },
+        (op: string, itemParams: IDataObject, sessionId: string, ctx: IExecuteFunctions, itemIndex: number) => {
+            if (op === 'insert2') {
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n<ResourceID>${itemParams.resourceID}</ResourceID>\n${buildAddressINXml(ctx, itemIndex)}`;
+            }
+            if (op === 'update') {
+                const en = itemParams.enableNullOrEmptyValues as boolean || false;
+                const addressIN = buildAddressINXml(ctx, itemIndex, itemParams.addressID as number);
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n${addressIN}\n<enableNullOrEmptyValues>${en ? 'true' : 'false'}</enableNullOrEmptyValues>`;
+            }
+            if (op === 'getAllAddresses') {
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n<ResourceID>${itemParams.resourceID}</ResourceID>`;
+            }
+            if (op === 'delete' || op === 'getAddressObject') {
+                return `<UUID>${escapeXml(sessionId)}</UUID>\n<AddressID>${itemParams.addressID}</AddressID>`;
+            }
+            return null;
+        },
+        RESOURCE, // Pass resource name for error context
+    );
+}
+
+/** ─ Service export ─ */
+export const DataResourceAddress30CoreService: Service = {
+    resource: RESOURCE,
+    resourceDisplayName: RESOURCE_DISPLAY_NAME,
+    resourceDescription: 'Core operations for DataResourceAddress30',
+    endpoint: ENDPOINT,
+    operationRegistry: OPERATION_REGISTRY,
+    operationOptions,
+    extraProperties,
+    async execute(operation, ctx, creds, url, baseUrl, timeoutMs, itemIndex) {
+        const config = createExecuteConfig(creds, url, baseUrl, timeoutMs);
+        const result = await executeStandardService(
+            operation,
+            ctx,
+            creds,
+            url,
+            baseUrl,
+            timeoutMs,
+            itemIndex,
+            PARAM_ORDER,
+            config,
+        );
+
+        // ID-only answers: fill in the address objects one by one
+        if (operation === 'getAllAddresses' && !(result.addresses as IDataObject[]).length) {
+            const addresses: IDataObject[] = [];
+            for (const addressID of result.addressIDs as number[]) {
+                const r = await executeOperation(ctx, 'getAddressObject', { addressID }, config, itemIndex) as IDataObject;
+                if (r.address) addresses.push(r.address as IDataObject);
+            }
+            return { ...result, addresses };
+        }
+        return result;
+    },
+};
@@ -1,6 +1,7 @@
-import { ILoadOptionsFunctions, IDataObject } from 'n8n-workflow';
+import { ILoadOptionsFunctions, IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import { Creds } from '../core/types';
-import { ExecuteConfig } from '../core/executor';
+import { executeOperation, callSoapOperation, type ExecuteConfig } from '../core/executor';
+import { escapeXml } from '../core/soap';
 import { extractResultBase } from '../core/xml';
 import { findFirstTagBlock } from '../core/parsers/common';
 import { NUMERIC_BOOLEAN_PARAMS } from '../core/constants';
@@ -25,47 +26,7 @@ export async function getAvailablePropertyNames(this: ILoadOptionsFunctions) {
   }
   
   try {
-    // Get credentials
-    const creds = await this.getCredentials('plunetApi') as Creds;
-    const scheme = creds.useHttps ? 'https' : 'http';
-    const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
-    const url = `${baseUrl}/DataAdmin30`;
-    const timeoutMs = creds.timeout ?? 30000;
-    
-    // Create execute config for DataAdmin30
-    const config = createAdminExecuteConfig(creds, url, baseUrl, timeoutMs);
-    
-    // Call getAvailableProperties using a different approach
-    // We need to make a direct SOAP call since executeOperation expects IExecuteFunctions
-    const sessionId = await config.getSessionId(this as any, 0);
-    const soapAction = config.soapActionFor('getAvailableProperties');
-    
-    // Build SOAP envelope
-    const envelope = `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope" xmlns:api="http://API.Integration/">
-   <soap:Header/>
-   <soap:Body>
-      <api:getAvailableProperties>
-         <UUID>${sessionId}</UUID>
-         <PropertyUsageArea>${usageArea}</PropertyUsageArea>
-         <MainID>${mainID}</MainID>
-      </api:getAvailableProperties>
-   </soap:Body>
-</soap:Envelope>`;
-    
-    // Make SOAP request
-    const response = await this.helpers.request({
-      method: 'POST',
-      url: config.url,
-      headers: {
-        'Content-Type': 'application/soap+xml; charset=utf-8',
-        'SOAPAction': soapAction,
-      },
-      body: envelope,
-    });
-    
-    // Parse response
-    const parsed = config.parseResult(response, 'getAvailableProperties') as IDataObject;
+    const parsed = await requestAdmin(this, 'getAvailableProperties', { PropertyUsageArea: usageArea, MainID: mainID });
     
     // Debug: Check what we got
     if (parsed.statusCode && parsed.statusCode !== 0) {
@@ -108,6 +69,65 @@ export async function getAvailablePropertyNames(this: ILoadOptionsFunctions) {
   }
 }
 
+/** DataAdmin30 URL and execute config for these credentials */
+function adminConfigFor(creds: Creds, timeoutMs: number): ExecuteConfig {
+  const scheme = creds.useHttps ? 'https' : 'http';
+  const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
+  return createAdminExecuteConfig(creds, `${baseUrl}/DataAdmin30`, baseUrl, timeoutMs);
+}
+
+/**
+ * Call a DataAdmin30 lookup for a load options list and parse it with the admin config.
+ * Parameters are sent in the config's paramOrder; callSoapOperation applies retries, the SOAP version and session renewal.
+ */
+async function requestAdmin(ctx: ILoadOptionsFunctions, op: string, params: IDataObject): Promise<IDataObject> {
+  const creds = await ctx.getCredentials('plunetApi') as Creds;
+  const config = adminConfigFor(creds, creds.timeout ?? 30000);
+  const xml = await callSoapOperation(
+    ctx,
+    creds,
+    config.url,
+    op,
+    (sessionId) => `<UUID>${escapeXml(sessionId)}</UUID>` +
+      (config.paramOrder[op] ?? []).map((name) => `<${name}>${escapeXml(String(params[name] ?? ''))}</${name}>`).join(''),
+    'DataAdmin30',
+  );
+  return config.parseResult(xml, op) as IDataObject;
+}
+
+/**
+ * getAvailableProperties at run time: the English names of the properties of one entity
+ */
+export async function fetchAvailableProperties(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  timeoutMs: number,
+  usageArea: number,
+  mainID: number,
+  itemIndex: number,
+): Promise<string[]> {
+  const params = { PropertyUsageArea: usageArea, MainID: mainID };
+  const r = await executeOperation(ctx, 'getAvailableProperties', params, adminConfigFor(creds, timeoutMs), itemIndex) as IDataObject;
+  return (r.data as string[] | undefined) ?? [];
+}
+
+/**
+ * getAvailableTextModules at run time: `{ name, value }` options, value being `flag|label`
+ */
+export async function fetchAvailableTextModules(
+  ctx: IExecuteFunctions,
+  creds: Creds,
+  timeoutMs: number,
+  textModuleUsageArea: number,
+  id: number,
+  languageCode: string,
+  itemIndex: number,
+): Promise<Array<{ name: string; value: string }>> {
+  const params = { textModuleUsageArea, MainID: id, languageCode };
+  const r = await executeOperation(ctx, 'getAvailableTextModules', params, adminConfigFor(creds, timeoutMs), itemIndex) as IDataObject;
+  return (r.data as Array<{ name: string; value: string }> | undefined) ?? [];
+}
+
 function createAdminExecuteConfig(creds: Creds, url: string, baseUrl: string, timeoutMs: number): ExecuteConfig {
   return {
     url,
@@ -118,10 +138,12 @@ function createAdminExecuteConfig(creds: Creds, url: string, baseUrl: string, ti
       getAvailableCountries: ['languageCode']
     },
     numericBooleans: NUMERIC_BOOLEAN_PARAMS,
-    getSessionId: async (ctx: any) => {
+    getSessionId: async (ctx: IExecuteFunctions) => {
       const { ensureSession } = await import('../core/session');
       return ensureSession(ctx, creds, `${baseUrl}/PlunetAPI`, timeoutMs, 0);
     },
+    creds, // Pass credentials for debug mode and retry settings
+    timeoutMs, // Credential timeout or node override
     parseResult: (xml: string, op: string) => {
       if (op === 'getAvailableProperties') {
         // Parse PropertyListResult for getAvailableProperties
@@ -523,48 +545,7 @@ export async function getAvailableTextModuleFlags(this: ILoadOptionsFunctions) {
   }
   
   try {
-    // Get credentials
-    const creds = await this.getCredentials('plunetApi') as Creds;
-    const scheme = creds.useHttps ? 'https' : 'http';
-    const baseUrl = `${scheme}://${creds.baseHost.replace(/\/$/, '')}`;
-    const url = `${baseUrl}/DataAdmin30`;
-    const timeoutMs = creds.timeout ?? 30000;
-    
-    // Create execute config for DataAdmin30
-    const config = createAdminExecuteConfig(creds, url, baseUrl, timeoutMs);
-    
-    // Call getAvailableTextModules using a different approach
-    // We need to make a direct SOAP call since executeOperation expects IExecuteFunctions
-    const sessionId = await config.getSessionId(this as any, 0);
-    const soapAction = config.soapActionFor('getAvailableTextModules');
-    
-    // Build SOAP envelope
-    const envelope = `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope" xmlns:api="http://API.Integration/">
-   <soap:Header/>
-   <soap:Body>
-      <api:getAvailableTextModules>
-         <UUID>${sessionId}</UUID>
-         <languageCode>${languageCode}</languageCode>
-         <textModuleUsageArea>${textModuleUsageArea}</textModuleUsageArea>
-         <MainID>${id}</MainID>
-      </api:getAvailableTextModules>
-   </soap:Body>
-</soap:Envelope>`;
-    
-    // Make SOAP request
-    const response = await this.helpers.request({
-      method: 'POST',
-      url: config.url,
-      headers: {
-        'Content-Type': 'application/soap+xml; charset=utf-8',
-        'SOAPAction': soapAction,
-      },
-      body: envelope,
-    });
-    
-    // Parse response
-    const parsed = config.parseResult(response, 'getAvailableTextModules') as IDataObject;
+    const parsed = await requestAdmin(this, 'getAvailableTextModules', { textModuleUsageArea, MainID: id, languageCode });
     
     // Debug: Check what we got
     if (parsed.statusCode && parsed.statusCode !== 0) {
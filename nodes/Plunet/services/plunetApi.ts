@@ -111,7 +111,7 @@ async function doLogin(
   </soapenv:Body>
 </soapenv:Envelope>`;
 
-    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/login', timeoutMs);
+    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/login', timeoutMs, creds.soapVersion);
 
     // Read raw <return> (UUID on success, "refused" on failure)
     const ret = extractLoginReturnString(body);
@@ -157,7 +157,7 @@ async function doValidate(
     ].join('\n');
 
     const env11 = buildEnvelope('validate', bodyXml);
-    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/validate', timeoutMs);
+    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/validate', timeoutMs, creds.soapVersion);
 
     /** Enforce rule: non-OK => hard error */
     const base = extractResultBase(body);
@@ -195,7 +195,7 @@ async function doLogout(
     }
 
     const env11 = buildEnvelope('logout', `<UUID>${escapeXml(uuid)}</UUID>`);
-    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/logout', timeoutMs);
+    const body = await sendSoapWithFallback(ctx, url, env11, 'http://API.Integration/logout', timeoutMs, creds.soapVersion);
 
     /** Enforce rule: non-OK => hard error */
     const base = extractResultBase(body);